@@ -0,0 +1,41 @@
+import { createTransport } from "nodemailer";
+import { appendFile } from "fs/promises";
+
+import { env } from "../env";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+function smtpMailer(): Mailer {
+  const transport = createTransport(env.SMTP_URI);
+
+  return {
+    async send(message) {
+      await transport.sendMail({ from: env.MAIL_FROM, ...message });
+    },
+  };
+}
+
+// Used in development, mail is never sent anywhere and just ends up in a file.
+function logMailer(): Mailer {
+  return {
+    async send(message) {
+      console.log(`Mail > ${message.subject} to ${message.to}`);
+      await appendFile(
+        env.MAIL_LOG_PATH,
+        `From: ${env.MAIL_FROM}\nTo: ${message.to}\nSubject: ${
+          message.subject
+        }\nDate: ${new Date().toISOString()}\n\n${message.text}\n\n`
+      );
+    },
+  };
+}
+
+export const mailer = env.MAIL_DRIVER == "smtp" ? smtpMailer() : logMailer();
@@ -4,3 +4,24 @@ export const AuthorizedOAuthOrigins = [
   "localhost",
   "127.0.0.1",
 ];
+
+// Log entry type the Peak writes to its log ring when a heat cycle completes,
+// every one of these is counted as a dab.
+export const DabLogType = 4;
+
+// Device clocks can be way off until synced, anything stamped outside of
+// these bounds is treated as untrustworthy when building history.
+export const MinimumLogDate = new Date("2016-01-01T00:00:00Z");
+
+// Serial numbers share a prefix per product line / batch, firmware history is
+// grouped by this many leading characters of the serial.
+export const SerialPrefixLength = 4;
+
+// Device fields that are never shown on public listings.
+export const PrivateDeviceFields = [
+  "mac",
+  "git_hash",
+  "profiles",
+  "last_ip",
+  "serial_number",
+];
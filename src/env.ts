@@ -1,4 +1,4 @@
-import { bool, envsafe, port, str } from "envsafe";
+import { bool, envsafe, num, port, str } from "envsafe";
 
 export const env = envsafe({
   DEBUG: bool({
@@ -34,6 +34,20 @@ export const env = envsafe({
   DISCORD_CLIENT_SECRET: str({
     desc: "Discord OAuth Client Secret",
   }),
+  GITHUB_CLIENT_ID: str({
+    desc: "GitHub OAuth Client ID",
+    allowEmpty: true,
+    default: "",
+  }),
+  GITHUB_CLIENT_SECRET: str({
+    desc: "GitHub OAuth Client Secret",
+    allowEmpty: true,
+    default: "",
+  }),
+  OAUTH_MOCK: bool({
+    desc: "Enable the mock OAuth provider",
+    default: false,
+  }),
   APPLICATION_HOST: str({
     desc: "Application Host",
   }),
@@ -49,4 +63,41 @@ export const env = envsafe({
   MINIO_BUCKET: str({
     default: "puffcdn",
   }),
+  MINIO_EXPORTS_BUCKET: str({
+    desc: "Private bucket for account data exports",
+    default: "puffexports",
+  }),
+  MAIL_DRIVER: str({
+    desc: "Mail transport to use",
+    choices: ["smtp", "log"],
+    default: "smtp",
+    devDefault: "log",
+  }),
+  SMTP_URI: str({
+    desc: "SMTP Server URI",
+    default: "smtp://localhost:25",
+  }),
+  MAIL_FROM: str({
+    default: "puff.social <noreply@puff.social>",
+  }),
+  MAIL_LOG_PATH: str({
+    desc: "File mail is written to when using the log driver",
+    default: "mail.log",
+  }),
+  RESTRICT_UNVERIFIED_ACCOUNTS: bool({
+    desc: "Keep users with an unverified email off public listings",
+    default: false,
+  }),
+  ACCOUNT_DELETION_GRACE: num({
+    desc: "Seconds before a requested account deletion is carried out",
+    default: 604_800,
+  }),
+  SESSION_LIFETIME: num({
+    desc: "Absolute session lifetime in seconds",
+    default: 7_776_000,
+  }),
+  SESSION_IDLE_LIFETIME: num({
+    desc: "Seconds a session can go unused before it expires",
+    default: 2_592_000,
+  }),
 });
@@ -31,6 +31,38 @@ export async function exchangeDiscordCode(code: string, redirect_uri: string) {
   return json;
 }
 
+export async function refreshDiscordToken(refresh_token: string) {
+  const req = await fetch("https://discord.com/api/oauth2/token", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: stringify({
+      refresh_token,
+      grant_type: "refresh_token",
+      client_id: env.DISCORD_CLIENT_ID,
+      client_secret: env.DISCORD_CLIENT_SECRET,
+    }),
+  });
+
+  // Discord answers invalid_grant with a 400, anything else (rate limits,
+  // outages) doesn't say anything about the refresh token itself.
+  if (req.status == 400) throw { code: "invalid_refresh_token" };
+  if (req.status != 200)
+    throw { code: "failed_to_refresh_token", status: req.status };
+
+  const json: DiscordTokens = await req.json();
+
+  if (env.DEBUG)
+    console.debug(
+      `API > Refreshed discord tokens`,
+      json.access_token.substring(0, 10),
+      json.scope
+    );
+
+  return json;
+}
+
 export async function fetchDiscordUser(token: string) {
   const req = await fetch("https://discord.com/api/users/@me", {
     headers: {
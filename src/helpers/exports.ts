@@ -0,0 +1,118 @@
+import { randomBytes } from "crypto";
+import { keydb } from "@puff-social/commons/dist/connectivity/keydb";
+import { DeleteObjectsCommand, PutObjectCommand } from "@aws-sdk/client-s3";
+
+import { env } from "../env";
+import { minio } from "../connectivity/minio";
+import { prisma } from "../connectivity/prisma";
+import { sessionId } from "./sessions";
+
+// Export status is kept around for as long as the download is worth offering.
+export const ExportLifetime = 604_800;
+
+export interface ExportStatus {
+  user_id: string;
+  status: "pending" | "complete" | "failed";
+  created: string;
+  key?: string;
+}
+
+async function collectUserData(id: string) {
+  const user = await prisma.users.findFirst({ where: { id } });
+
+  const accounts = await prisma.accounts.findMany({
+    where: { user_id: id },
+    select: { id: true, email: true, verified: true, totp_enabled: true },
+  });
+  const connections = await prisma.connections.findMany({
+    where: { user_id: id },
+  });
+  const sessions = await prisma.sessions.findMany({ where: { user_id: id } });
+  const devices = await prisma.devices.findMany({ where: { user_id: id } });
+  const macs = devices.map((device) => device.mac);
+
+  const device_logs = await prisma.device_logs.findMany({
+    where: { device_id: { in: devices.map((device) => device.id) } },
+  });
+  const feedback = await prisma.feedback.findMany({ where: { user_id: id } });
+  const diagnostics = await prisma.diagnostics.findMany({
+    where: { device_mac: { in: macs } },
+  });
+  // Debugging sessions identify the device by its mac without separators.
+  const debug_sessions = await prisma.debug_sessions.findMany({
+    where: { identifier: { in: macs.map((mac) => mac.replace(/:/g, "")) } },
+  });
+  const firmware_watches = await prisma.firmware_watches.findMany({
+    where: { user: id },
+  });
+
+  return {
+    exported: new Date(),
+    user,
+    accounts,
+    connections,
+    sessions: sessions.map(({ token, ...session }) => ({
+      id: sessionId(token),
+      ...session,
+    })),
+    devices,
+    device_logs,
+    feedback,
+    diagnostics,
+    debug_sessions,
+    firmware_watches,
+  };
+}
+
+export async function buildExport(id: string, user: string) {
+  try {
+    const data = await collectUserData(user);
+    // The bucket is private, but keep the key unguessable anyway since user
+    // ids are public and export ids are time based.
+    const key = `${user}/${randomBytes(32).toString("hex")}.json`;
+
+    await minio.send(
+      new PutObjectCommand({
+        Bucket: env.MINIO_EXPORTS_BUCKET,
+        Key: key,
+        Body: JSON.stringify(data, null, 2),
+        ContentType: "application/json",
+        ContentDisposition: `attachment; filename="puff-social-${id}.json"`,
+      })
+    );
+
+    await keydb.hset(`exports/${id}`, { status: "complete", key });
+    await keydb.zadd(
+      "exports/objects",
+      Date.now() + ExportLifetime * 1000,
+      key
+    );
+  } catch (error) {
+    console.error(`API > Failed to build export ${id}`, error);
+    await keydb.hset(`exports/${id}`, { status: "failed" });
+  }
+}
+
+// Export objects outlive their status key, anything past its lifetime is
+// removed here.
+export async function deleteExpiredExports() {
+  const keys = await keydb.zrangebyscore(
+    "exports/objects",
+    0,
+    Date.now(),
+    "LIMIT",
+    0,
+    1000
+  );
+  if (!keys.length) return 0;
+
+  await minio.send(
+    new DeleteObjectsCommand({
+      Bucket: env.MINIO_EXPORTS_BUCKET,
+      Delete: { Objects: keys.map((key) => ({ Key: key })) },
+    })
+  );
+  await keydb.zrem("exports/objects", ...keys);
+
+  return keys.length;
+}
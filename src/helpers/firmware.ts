@@ -0,0 +1,121 @@
+import { pika } from "@puff-social/commons";
+import { keydb } from "@puff-social/commons/dist/connectivity/keydb";
+
+import { prisma } from "../connectivity/prisma";
+import { SerialPrefixLength } from "../constants";
+import { OtaFirmware } from "../types/Puffco";
+import { getOtaLatest } from "./puffco";
+
+// Cached OTA results are served as-is for this long, after that they are still
+// served but refreshed in the background until the key itself expires.
+const OtaFreshTime = 600_000;
+const OtaCacheTime = 86_400;
+const OtaConcurrency = 4;
+
+const pendingOta = new Map<string, Promise<OtaFirmware | null>>();
+const otaQueue: (() => void)[] = [];
+let activeOta = 0;
+
+export function serialPrefix(serial: string) {
+  return serial.substring(0, SerialPrefixLength).toUpperCase();
+}
+
+export function parseOtaFirmware(ota: OtaFirmware) {
+  const match =
+    /([a-zA-Z].*)-(application|[a-zA-Z].*-[a-zA-Z].*)-([0-9a-zA-Z]{7})-release.(gbl|puff)/.exec(
+      ota.fileMedia.filename
+    );
+  if (!match) return undefined;
+
+  const [_, codename, name, gitHash, type] = match;
+
+  return {
+    codename,
+    name,
+    gitHash,
+    type,
+    date: new Date(ota.fileMedia.created),
+    release: ota.fileMedia.originalUrl,
+  };
+}
+
+export async function recordFirmwareRelease(serial: string, ota: OtaFirmware) {
+  const parsed = parseOtaFirmware(ota);
+  const serial_prefix = serialPrefix(serial);
+
+  return prisma.firmware_releases.upsert({
+    where: {
+      ota_id_serial_prefix: { ota_id: ota.id, serial_prefix },
+    },
+    update: { last_seen: new Date() },
+    create: {
+      id: pika.gen("firmware_release"),
+      ota_id: ota.id,
+      serial_prefix,
+      version: ota.version,
+      codename: parsed?.codename,
+      name: parsed?.name,
+      git_hash: parsed?.gitHash,
+      type: parsed?.type,
+      filename: ota.fileMedia.filename,
+      file_url: ota.fileMedia.originalUrl,
+      release_notes: ota.releaseNotes,
+      released_at: parsed?.date,
+    },
+  });
+}
+
+async function limitOta<T>(fn: () => Promise<T>) {
+  if (activeOta >= OtaConcurrency)
+    await new Promise<void>((resolve) => otaQueue.push(resolve));
+  else activeOta++;
+
+  try {
+    return await fn();
+  } finally {
+    // Hand the slot straight to the next waiter rather than releasing it.
+    const next = otaQueue.shift();
+    if (next) next();
+    else activeOta--;
+  }
+}
+
+function refreshOta(serial: string) {
+  const prefix = serialPrefix(serial);
+
+  const pending = pendingOta.get(prefix);
+  if (pending) return pending;
+
+  const request = limitOta(() => getOtaLatest(serial))
+    .then(async (ota) => {
+      await keydb.set(
+        `ota/cache/${prefix}`,
+        JSON.stringify({ fetched: Date.now(), ota }),
+        "EX",
+        OtaCacheTime
+      );
+      if (ota) await recordFirmwareRelease(serial, ota).catch(console.error);
+
+      return ota;
+    })
+    .finally(() => pendingOta.delete(prefix));
+
+  pendingOta.set(prefix, request);
+  return request;
+}
+
+export async function getCachedOta(serial: string) {
+  const cached = await keydb.get(`ota/cache/${serialPrefix(serial)}`);
+  if (!cached) return refreshOta(serial);
+
+  const { fetched, ota } = JSON.parse(cached) as {
+    fetched: number;
+    ota: OtaFirmware | null;
+  };
+  if (Date.now() - fetched > OtaFreshTime)
+    refreshOta(serial).catch((error) =>
+      console.error(`API > Failed to refresh OTA for ${serial}`, error)
+    );
+
+  return ota;
+}
@@ -0,0 +1,88 @@
+import sharp from "sharp";
+import { createHash } from "crypto";
+
+export const ImageKinds = {
+  avatar: {
+    prefix: "avatars",
+    field: "image",
+    maxBytes: 8_388_608,
+    sizes: [
+      [512, 512],
+      [128, 128],
+    ],
+  },
+  banner: {
+    prefix: "banners",
+    field: "banner",
+    maxBytes: 10_485_760,
+    sizes: [
+      [1500, 500],
+      [600, 200],
+    ],
+  },
+} as const;
+
+export type ImageKind = keyof typeof ImageKinds;
+
+export const AllowedImageTypes = [
+  "image/png",
+  "image/jpeg",
+  "image/webp",
+  "image/gif",
+];
+
+export interface ProcessedImage {
+  hash: string;
+  variants: { key: string; data: Buffer; contentType: string }[];
+}
+
+// Uploads are never stored as sent, they're decoded and re-encoded to our own
+// sizes which also strips metadata and anything that isn't really an image.
+export async function processImage(
+  user: string,
+  kind: ImageKind,
+  buffer: Buffer
+): Promise<ProcessedImage> {
+  const { prefix, sizes } = ImageKinds[kind];
+
+  const metadata = await sharp(buffer)
+    .metadata()
+    .catch(() => {
+      throw { code: "invalid_image", status: 400 };
+    });
+  if (!["png", "jpeg", "webp", "gif"].includes(metadata.format as string))
+    throw { code: "invalid_image_type", status: 400 };
+
+  const animated = metadata.format == "gif" && (metadata.pages ?? 1) > 1;
+  const extension = animated ? "gif" : "png";
+
+  const encoded = await Promise.all(
+    sizes.map(async ([width, height]) => {
+      const image = sharp(buffer, { animated })
+        .rotate()
+        .resize(width, height, { fit: "cover" });
+
+      return {
+        width,
+        data: await (animated ? image.gif() : image.png()).toBuffer(),
+      };
+    })
+  );
+
+  // Same naming as Discord avatars so clients can tell animated ones apart.
+  const hash = `${animated ? "a_" : ""}${createHash("sha256")
+    .update(encoded[0].data)
+    .digest("hex")
+    .substring(0, 32)}`;
+
+  return {
+    hash,
+    variants: encoded.map(({ width, data }, index) => ({
+      key: `${prefix}/${user}/${hash}${
+        index == 0 ? "" : `-${width}`
+      }.${extension}`,
+      data,
+      contentType: animated ? "image/gif" : "image/png",
+    })),
+  };
+}
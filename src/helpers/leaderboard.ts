@@ -0,0 +1,255 @@
+import { Prisma } from "@prisma/client";
+import { keydb } from "@puff-social/commons/dist/connectivity/keydb";
+import {
+  MinimumFirmwareMap,
+  lettersToNumber,
+} from "@puff-social/commons/dist/puffco";
+
+import { env } from "../env";
+import { prisma } from "../connectivity/prisma";
+import { DabLogType } from "../constants";
+import { LogTimestamp } from "./logs";
+import { acquireLock, releaseLock } from "./locks";
+
+const LockTimeout = 600;
+const UpdateDelay = 10_000;
+const SnapshotInterval = 86_400;
+
+export const LeaderboardPeriods = {
+  week: 604_800_000,
+  month: 2_592_000_000,
+};
+
+export type LeaderboardPeriod = keyof typeof LeaderboardPeriods;
+
+let pendingUpdate: NodeJS.Timeout | undefined;
+const pendingDevices = new Set<string>();
+
+// Condition on the owner (aliased u) for a device to show up on any board,
+// devices that wouldn't be listed don't get a position so ranks stay contiguous.
+function eligibleOwner() {
+  // Users that signed up with an email need to have verified it, users from an
+  // OAuth platform have no accounts row so always pass.
+  const verified = env.RESTRICT_UNVERIFIED_ACCOUNTS
+    ? Prisma.sql`AND (
+        NOT EXISTS (SELECT 1 FROM accounts a WHERE a.user_id = u.id AND NOT a.verified)
+        OR EXISTS (SELECT 1 FROM connections c WHERE c.user_id = u.id AND c.verified)
+      )`
+    : Prisma.empty;
+
+  return Prisma.sql`NOT u.hide_leaderboard ${verified}`;
+}
+
+// Ranks devices by the dabs logged over the last period, next to where they
+// ranked over the period before it.
+function rankPeriod(period: LeaderboardPeriod, eligible: Prisma.Sql) {
+  const end = new Date();
+  const start = new Date(end.getTime() - LeaderboardPeriods[period]);
+  const previousStart = new Date(
+    end.getTime() - LeaderboardPeriods[period] * 2
+  );
+
+  return prisma.$executeRaw`
+    WITH counts AS (
+      SELECT d.id,
+        count(*) FILTER (WHERE ${LogTimestamp} >= ${start})::int AS dabs,
+        count(*) FILTER (WHERE ${LogTimestamp} < ${start})::int AS previous_dabs
+      FROM device_logs l
+      JOIN devices d ON d.id = l.device_id
+      JOIN users u ON u.id = d.user_id
+      WHERE l.type = ${DabLogType}
+        -- LogTimestamp picks one of these two, so this narrows things down to
+        -- the window using the indexes before the CASE has to be looked at.
+        AND (l.real_timestamp >= ${previousStart} OR l.timestamp >= ${previousStart})
+        AND ${LogTimestamp} >= ${previousStart}
+        AND ${LogTimestamp} < ${end}
+        AND ${eligible}
+      GROUP BY d.id
+    ),
+    current AS (
+      SELECT id, dabs, ROW_NUMBER() OVER (ORDER BY dabs DESC, id) AS position
+      FROM counts WHERE dabs > 0
+    ),
+    previous AS (
+      SELECT id, ROW_NUMBER() OVER (ORDER BY previous_dabs DESC, id) AS position
+      FROM counts WHERE previous_dabs > 0
+    )
+    UPDATE device_leaderboard lb SET
+      ${Prisma.raw(`${period}_position`)} = c.position,
+      ${Prisma.raw(`${period}_dabs`)} = c.dabs,
+      ${Prisma.raw(`previous_${period}_position`)} = p.position
+    FROM device_leaderboard target
+    LEFT JOIN current c ON c.id = target.id
+    LEFT JOIN previous p ON p.id = target.id
+    WHERE lb.id = target.id`;
+}
+
+// Full re-rank of every board, run on a schedule. Changes in between are
+// applied one device at a time by queueLeaderboardUpdate.
+export async function buildLeaderboard() {
+  const lock = await acquireLock("leaderboard/lock", LockTimeout);
+  if (!lock) return null;
+
+  try {
+    const xlFirmware = lettersToNumber(MinimumFirmwareMap.XL_CHAMBER);
+    const eligible = eligibleOwner();
+
+    // Positions from the start of the day are kept around so each entry can
+    // show how far it moved since.
+    if (!(await keydb.exists("leaderboard/snapshot"))) {
+      await prisma.$executeRaw`UPDATE device_leaderboard SET
+        previous_position = position,
+        previous_avg_position = avg_position`;
+      await keydb.set(
+        "leaderboard/snapshot",
+        Date.now(),
+        "EX",
+        SnapshotInterval
+      );
+    }
+
+    const [, updated] = await prisma.$transaction([
+      prisma.$executeRaw`DELETE FROM device_leaderboard lb WHERE NOT EXISTS (
+        SELECT 1 FROM devices d JOIN users u ON u.id = d.user_id
+        WHERE d.id = lb.id AND ${eligible}
+      )`,
+      prisma.$executeRaw`INSERT INTO device_leaderboard (id, position, avg_position)
+        SELECT
+          d.id,
+          ROW_NUMBER() OVER (ORDER BY d.dabs DESC, d.dob ASC, d.id ASC),
+          CASE WHEN d.firmware_raw >= ${xlFirmware} THEN
+            ROW_NUMBER() OVER (
+              PARTITION BY d.firmware_raw >= ${xlFirmware}
+              ORDER BY d.avg_dabs DESC, d.dob ASC, d.id ASC
+            )
+          END
+        FROM devices d JOIN users u ON u.id = d.user_id
+        WHERE ${eligible}
+        ON CONFLICT (id) DO UPDATE SET
+          position = EXCLUDED.position,
+          avg_position = EXCLUDED.avg_position`,
+    ]);
+
+    await prisma.$transaction([
+      rankPeriod("week", eligible),
+      rankPeriod("month", eligible),
+    ]);
+
+    return updated;
+  } finally {
+    await releaseLock("leaderboard/lock", lock);
+  }
+}
+
+// Moves everything between where a device was and where it's going by one
+// place, so the rest of the board stays contiguous without re-ranking it all.
+function shiftPositions(
+  tx: Prisma.TransactionClient,
+  column: "position" | "avg_position",
+  id: string,
+  from: number | null,
+  to: number | null
+) {
+  const col = Prisma.raw(column);
+  if (from == to) return;
+
+  if (from == null)
+    return tx.$executeRaw`UPDATE device_leaderboard SET ${col} = ${col} + 1
+      WHERE id != ${id} AND ${col} >= ${to}`;
+  if (to == null)
+    return tx.$executeRaw`UPDATE device_leaderboard SET ${col} = ${col} - 1
+      WHERE id != ${id} AND ${col} > ${from}`;
+  if (to < from)
+    return tx.$executeRaw`UPDATE device_leaderboard SET ${col} = ${col} + 1
+      WHERE id != ${id} AND ${col} >= ${to} AND ${col} < ${from}`;
+
+  return tx.$executeRaw`UPDATE device_leaderboard SET ${col} = ${col} - 1
+    WHERE id != ${id} AND ${col} > ${from} AND ${col} <= ${to}`;
+}
+
+// Re-ranks a single device against the positions already on the board, same
+// ordering as buildLeaderboard. Any drift is fixed up by the next full build.
+async function rankDevice(id: string) {
+  const xlFirmware = lettersToNumber(MinimumFirmwareMap.XL_CHAMBER);
+
+  await prisma.$transaction(async (tx) => {
+    const [device] = await tx.$queryRaw<
+      {
+        eligible: boolean;
+        xl: boolean;
+        position: number | null;
+        avg_position: number | null;
+        ahead: number;
+        avg_ahead: number;
+      }[]
+    >`
+      SELECT
+        (u.id IS NOT NULL AND ${eligibleOwner()}) AS eligible,
+        d.firmware_raw >= ${xlFirmware} AS xl,
+        lb.position,
+        lb.avg_position,
+        (SELECT count(*)::int FROM device_leaderboard olb
+          JOIN devices o ON o.id = olb.id
+          WHERE o.id != d.id
+            AND (o.dabs, d.dob, d.id) > (d.dabs, o.dob, o.id)) AS ahead,
+        (SELECT count(*)::int FROM device_leaderboard olb
+          JOIN devices o ON o.id = olb.id
+          WHERE o.id != d.id AND olb.avg_position IS NOT NULL
+            AND (o.avg_dabs, d.dob, d.id) > (d.avg_dabs, o.dob, o.id)) AS avg_ahead
+      FROM devices d
+      LEFT JOIN users u ON u.id = d.user_id
+      LEFT JOIN device_leaderboard lb ON lb.id = d.id
+      WHERE d.id = ${id}`;
+    if (!device) return;
+
+    const position = device.eligible ? device.ahead + 1 : null;
+    const avgPosition =
+      device.eligible && device.xl ? device.avg_ahead + 1 : null;
+
+    await shiftPositions(tx, "position", id, device.position, position);
+    await shiftPositions(
+      tx,
+      "avg_position",
+      id,
+      device.avg_position,
+      avgPosition
+    );
+
+    if (position == null)
+      await tx.device_leaderboard.deleteMany({ where: { id } });
+    else
+      await tx.device_leaderboard.upsert({
+        where: { id },
+        create: { id, position, avg_position: avgPosition },
+        update: { position, avg_position: avgPosition },
+      });
+  });
+}
+
+// Called whenever something that affects a device's ranking changes, devices
+// changing close together are moved in one go.
+export function queueLeaderboardUpdate(...devices: string[]) {
+  for (const device of devices) pendingDevices.add(device);
+  if (pendingUpdate) return;
+
+  pendingUpdate = setTimeout(async () => {
+    pendingUpdate = undefined;
+
+    try {
+      // A full build is running, the devices stay queued until it's done.
+      const lock = await acquireLock("leaderboard/lock", LockTimeout);
+      if (!lock) return queueLeaderboardUpdate();
+
+      const devices = [...pendingDevices];
+      pendingDevices.clear();
+
+      try {
+        for (const device of devices) await rankDevice(device);
+      } finally {
+        await releaseLock("leaderboard/lock", lock);
+      }
+    } catch (error) {
+      console.error("API > Failed to update leaderboard", error);
+    }
+  }, UpdateDelay);
+}
@@ -0,0 +1,16 @@
+import { randomBytes } from "crypto";
+import { keydb } from "@puff-social/commons/dist/connectivity/keydb";
+
+// Returns a token to release the lock with, or null if someone else holds it.
+export async function acquireLock(key: string, timeout: number) {
+  const token = randomBytes(16).toString("hex");
+  const lock = await keydb.set(key, token, "EX", timeout, "NX");
+
+  return lock ? token : null;
+}
+
+export async function releaseLock(key: string, token: string) {
+  // Only drop the lock if it's still ours, if we overran the timeout another
+  // instance may have picked it up since.
+  if ((await keydb.get(key)) == token) await keydb.del(key);
+}
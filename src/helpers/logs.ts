@@ -0,0 +1,7 @@
+import { Prisma } from "@prisma/client";
+
+import { MinimumLogDate } from "../constants";
+
+// real_timestamp is only as good as the clock the app had when the logs were
+// read, fall back to the device timestamp when it is clearly nonsense.
+export const LogTimestamp = Prisma.sql`(CASE WHEN real_timestamp BETWEEN ${MinimumLogDate} AND now() + interval '1 day' THEN real_timestamp ELSE timestamp END)`;
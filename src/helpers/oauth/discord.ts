@@ -0,0 +1,63 @@
+import { stringify } from "querystring";
+
+import { env } from "../../env";
+import { OAuthProvider } from "../../types/OAuth";
+import {
+  exchangeDiscordCode,
+  fetchDiscordUser,
+  refreshDiscordToken,
+} from "../discord";
+
+export const discordProvider: OAuthProvider = {
+  name: "discord",
+
+  authorizeUrl(state, redirect_uri) {
+    const params = stringify({
+      client_id: env.DISCORD_CLIENT_ID,
+      response_type: "code",
+      scope: "identify",
+      state,
+      redirect_uri,
+    });
+
+    return `https://discord.com/oauth2/authorize?${params}`;
+  },
+
+  exchangeCode(code, redirect_uri) {
+    return exchangeDiscordCode(code, redirect_uri);
+  },
+
+  refreshToken(refresh_token) {
+    return refreshDiscordToken(refresh_token);
+  },
+
+  async fetchProfile(tokens) {
+    const user = await fetchDiscordUser(tokens.access_token);
+
+    return {
+      id: user.id,
+      username: user.username,
+      display_name: user.global_name || user.username,
+      avatar: user.avatar,
+    };
+  },
+
+  async fetchAvatar(profile) {
+    if (!profile.avatar) return null;
+
+    const animated = profile.avatar.startsWith("a_");
+    const req = await fetch(
+      `https://cdn.discordapp.com/avatars/${profile.id}/${profile.avatar}.${
+        animated ? "gif" : "png"
+      }?size=512`
+    );
+    if (req.status != 200) return null;
+
+    return {
+      hash: profile.avatar,
+      data: Buffer.from(await req.arrayBuffer()),
+      contentType: animated ? "image/gif" : "image/png",
+      extension: animated ? "gif" : "png",
+    };
+  },
+};
@@ -0,0 +1,92 @@
+import { stringify } from "querystring";
+import { createHash } from "crypto";
+
+import { env } from "../../env";
+import { OAuthProvider } from "../../types/OAuth";
+
+interface GithubUser {
+  id: number;
+  login: string;
+  name: string | null;
+  avatar_url: string | null;
+}
+
+export const githubProvider: OAuthProvider = {
+  name: "github",
+
+  authorizeUrl(state, redirect_uri) {
+    const params = stringify({
+      client_id: env.GITHUB_CLIENT_ID,
+      scope: "read:user",
+      state,
+      redirect_uri,
+    });
+
+    return `https://github.com/login/oauth/authorize?${params}`;
+  },
+
+  async exchangeCode(code, redirect_uri) {
+    const req = await fetch("https://github.com/login/oauth/access_token", {
+      method: "POST",
+      headers: {
+        accept: "application/json",
+        "content-type": "application/x-www-form-urlencoded",
+      },
+      body: stringify({
+        code,
+        redirect_uri,
+        client_id: env.GITHUB_CLIENT_ID,
+        client_secret: env.GITHUB_CLIENT_SECRET,
+      }),
+    });
+
+    if (req.status != 200) throw { code: "invalid_token_request" };
+
+    // GitHub replies 200 even for a bad code, only with an error in the body.
+    const json = await req.json();
+    if (json.error) throw { code: "invalid_token_request" };
+
+    return {
+      access_token: json.access_token,
+      refresh_token: json.refresh_token,
+      expires_in: json.expires_in,
+    };
+  },
+
+  async fetchProfile(tokens) {
+    const req = await fetch("https://api.github.com/user", {
+      headers: {
+        accept: "application/vnd.github+json",
+        authorization: `Bearer ${tokens.access_token}`,
+        "user-agent": "puff.social",
+      },
+    });
+
+    if (req.status != 200) throw { code: "invalid_authentication" };
+
+    const user: GithubUser = await req.json();
+
+    return {
+      id: user.id.toString(),
+      username: user.login,
+      display_name: user.name || user.login,
+      avatar: user.avatar_url,
+    };
+  },
+
+  async fetchAvatar(profile) {
+    if (!profile.avatar) return null;
+
+    const req = await fetch(`${profile.avatar}&s=512`);
+    if (req.status != 200) return null;
+
+    const data = Buffer.from(await req.arrayBuffer());
+
+    return {
+      hash: createHash("sha256").update(data).digest("hex").substring(0, 32),
+      data,
+      contentType: req.headers.get("content-type") || "image/png",
+      extension: "png",
+    };
+  },
+};
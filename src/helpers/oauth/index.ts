@@ -0,0 +1,116 @@
+import { keydb } from "@puff-social/commons/dist/connectivity/keydb";
+import { FastifyRequest } from "fastify";
+
+import { env } from "../../env";
+import { acquireLock, releaseLock } from "../locks";
+import { OAuthProvider, OAuthTokens } from "../../types/OAuth";
+import { discordProvider } from "./discord";
+import { githubProvider } from "./github";
+import { mockProvider } from "./mock";
+
+const providers = new Map<string, OAuthProvider>();
+const pendingRefresh = new Map<string, Promise<string | null>>();
+
+export function registerProvider(provider: OAuthProvider) {
+  providers.set(provider.name, provider);
+}
+
+export function getProvider(name: string) {
+  return providers.get(name);
+}
+
+export function oauthRedirect(req: FastifyRequest, platform: string) {
+  return `${req.headers.origin || env.APPLICATION_HOST}/callback/${platform}`;
+}
+
+export async function storeOAuthTokens(
+  platform: string,
+  platform_id: string,
+  tokens: OAuthTokens
+) {
+  if (tokens.expires_in)
+    await keydb.set(
+      `oauth/${platform}/${platform_id}`,
+      tokens.access_token,
+      "EX",
+      tokens.expires_in
+    );
+  else await keydb.set(`oauth/${platform}/${platform_id}`, tokens.access_token);
+
+  if (tokens.refresh_token)
+    await keydb.set(
+      `oauth/${platform}/${platform_id}/refresh`,
+      tokens.refresh_token
+    );
+}
+
+async function refreshAccessToken(
+  provider: OAuthProvider,
+  platform: string,
+  platform_id: string
+) {
+  const key = `oauth/${platform}/${platform_id}`;
+  const lock = await acquireLock(`${key}/lock`, 15);
+
+  // Another instance is already refreshing this connection, wait for it to
+  // finish. Platforms rotate refresh tokens so only one refresh can succeed.
+  if (!lock) {
+    for (let i = 0; i < 20; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      const token = await keydb.get(key);
+      if (token) return token;
+      if (!(await keydb.exists(`${key}/refresh`))) return null;
+    }
+
+    throw { code: "oauth_refresh_failed", status: 504 };
+  }
+
+  try {
+    const refresh = await keydb.get(`${key}/refresh`);
+    if (!refresh) return null;
+
+    let tokens: OAuthTokens;
+    try {
+      tokens = await provider.refreshToken!(refresh);
+    } catch (error) {
+      // Only a refresh token the platform rejected is gone for good, anything
+      // else is worth trying again later.
+      if (error?.code != "invalid_refresh_token")
+        throw { code: "oauth_refresh_failed", status: 502 };
+
+      await keydb.del(`${key}/refresh`);
+      return null;
+    }
+
+    await storeOAuthTokens(platform, platform_id, tokens);
+
+    return tokens.access_token;
+  } finally {
+    await releaseLock(`${key}/lock`, lock);
+  }
+}
+
+export async function getOAuthAccessToken(
+  platform: string,
+  platform_id: string
+) {
+  const token = await keydb.get(`oauth/${platform}/${platform_id}`);
+  if (token) return token;
+
+  const provider = getProvider(platform);
+  if (!provider?.refreshToken) return null;
+
+  const pending = pendingRefresh.get(`${platform}/${platform_id}`);
+  if (pending) return pending;
+
+  const request = refreshAccessToken(provider, platform, platform_id).finally(
+    () => pendingRefresh.delete(`${platform}/${platform_id}`)
+  );
+  pendingRefresh.set(`${platform}/${platform_id}`, request);
+
+  return request;
+}
+
+registerProvider(discordProvider);
+if (env.GITHUB_CLIENT_ID) registerProvider(githubProvider);
+if (env.OAUTH_MOCK) registerProvider(mockProvider);
@@ -0,0 +1,34 @@
+import { stringify } from "querystring";
+
+import { OAuthProvider } from "../../types/OAuth";
+import { normalizeUsername } from "../../utils";
+
+// Stand-in provider for local development and tests, it skips the remote
+// platform entirely. The code handed back is the username to sign in as.
+export const mockProvider: OAuthProvider = {
+  name: "mock",
+
+  authorizeUrl(state, redirect_uri) {
+    return `${redirect_uri}?${stringify({ state, code: "mock-user" })}`;
+  },
+
+  async exchangeCode(code) {
+    return { access_token: code, expires_in: 3600 };
+  },
+
+  async fetchProfile(tokens) {
+    const username = normalizeUsername(tokens.access_token);
+    if (!username) throw { code: "invalid_authentication" };
+
+    return {
+      id: username,
+      username,
+      display_name: tokens.access_token,
+      avatar: null,
+    };
+  },
+
+  async fetchAvatar() {
+    return null;
+  },
+};
@@ -0,0 +1,55 @@
+import { devices, users } from "@prisma/client";
+
+import { env } from "../env";
+import { prisma } from "../connectivity/prisma";
+
+export const AnonymousDeviceName = "Anonymous";
+
+type PrivacySettings = Pick<
+  users,
+  "hide_leaderboard" | "anonymize_devices" | "hide_profile" | "hide_location"
+>;
+
+// Strips whatever the user has asked to keep private, a hidden profile means
+// the user isn't shown at all.
+export function publicUser<
+  T extends PrivacySettings & { location: string | null }
+>(user: T | null): T | null {
+  if (!user || user.hide_profile) return null;
+  if (user.hide_location) user.location = null;
+
+  return user;
+}
+
+export function publicDevice<
+  T extends Pick<devices, "name"> & { users?: (users & PrivacySettings) | null }
+>(device: T, owner?: PrivacySettings | null): T {
+  const settings = owner ?? device.users;
+  if (settings?.anonymize_devices) device.name = AnonymousDeviceName;
+  if (device.users) device.users = publicUser(device.users);
+
+  return device;
+}
+
+// Same rules the leaderboard is built with, positions of anyone who wouldn't be
+// listed there aren't shown anywhere else either.
+export async function showsOnLeaderboard(
+  user: Pick<users, "id" | "hide_leaderboard"> | null
+) {
+  if (!user || user.hide_leaderboard) return false;
+  if (!env.RESTRICT_UNVERIFIED_ACCOUNTS) return true;
+
+  // Users that signed up with an email need to have verified it, users from an
+  // OAuth platform have no accounts row so always pass.
+  const verified = await prisma.users.count({
+    where: {
+      id: user.id,
+      OR: [
+        { accounts: { none: { verified: false } } },
+        { connections: { some: { verified: true } } },
+      ],
+    },
+  });
+
+  return verified > 0;
+}
@@ -1,7 +1,13 @@
 import { keydb } from "@puff-social/commons/dist/connectivity/keydb";
+import { decode, JwtPayload } from "jsonwebtoken";
+
+import { prisma } from "../connectivity/prisma";
+import { acquireLock, releaseLock } from "./locks";
 import {
   AccountTokens,
   HeatProfile,
+  MoodLight,
+  NormalizedHeatProfile,
   OtaFirmware,
   PuffcoUser,
 } from "../types/Puffco";
@@ -22,6 +28,112 @@ async function pullCurrentAppVersion() {
 pullCurrentAppVersion();
 setInterval(pullCurrentAppVersion, 30_000);
 
+// Access tokens are refreshed when they have less than this many seconds left.
+const RefreshWindow = 60;
+
+const pendingRefresh = new Map<string, Promise<string>>();
+
+function tokenExpiry(token: string) {
+  const decoded = decode(token) as JwtPayload | null;
+  return decoded?.exp ? Math.floor(decoded.exp) : undefined;
+}
+
+function tokenValid(token: string | null): token is string {
+  if (!token) return false;
+
+  const exp = tokenExpiry(token);
+  return !exp || exp - Date.now() / 1000 > RefreshWindow;
+}
+
+export async function storeTokens(user: string, tokens: AccountTokens) {
+  for (const [key, token] of [
+    ["refresh_token", tokens.refreshToken],
+    ["access_token", tokens.accessToken],
+  ]) {
+    const exp = tokenExpiry(token);
+    if (exp)
+      await keydb.set(`tokens/puffco/${user}/${key}`, token, "EXAT", exp);
+    else await keydb.set(`tokens/puffco/${user}/${key}`, token);
+  }
+}
+
+async function revokeTokens(user: string) {
+  await keydb.del(
+    `tokens/puffco/${user}/refresh_token`,
+    `tokens/puffco/${user}/access_token`
+  );
+  await prisma.connections.updateMany({
+    where: { user_id: user, platform: "puffco" },
+    data: { verified: false },
+  });
+}
+
+async function refreshAccessToken(user: string) {
+  const lock = await acquireLock(`tokens/puffco/${user}/lock`, 15);
+
+  // Another instance is already refreshing this user, wait for it to finish.
+  if (!lock) {
+    for (let i = 0; i < 20; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      const token = await keydb.get(`tokens/puffco/${user}/access_token`);
+      if (tokenValid(token)) return token;
+
+      // The refresh token only goes away when the other instance found it dead.
+      if (!(await keydb.exists(`tokens/puffco/${user}/refresh_token`)))
+        throw { code: "puffco_token_expired", status: 401 };
+    }
+
+    throw { code: "failed_to_refresh_token", status: 504 };
+  }
+
+  try {
+    const refreshToken = await keydb.get(`tokens/puffco/${user}/refresh_token`);
+    if (!refreshToken) {
+      await revokeTokens(user);
+      throw { code: "puffco_token_expired", status: 401 };
+    }
+
+    const req = await fetch("https://api.puffco.app/api/users/refresh", {
+      method: "POST",
+      body: JSON.stringify({ refreshToken }),
+      headers: {
+        "content-type": "application/json",
+        ...BaseHeaders,
+      },
+    });
+
+    if ([400, 401, 403].includes(req.status)) {
+      await revokeTokens(user);
+      throw { code: "puffco_token_expired", status: 401 };
+    }
+
+    if (req.status != 200 && req.status != 201)
+      throw { code: "failed_to_refresh_token", status: req.status };
+
+    const tokens: AccountTokens = await req.json();
+    await storeTokens(user, tokens);
+
+    return tokens.accessToken;
+  } finally {
+    await releaseLock(`tokens/puffco/${user}/lock`, lock);
+  }
+}
+
+export async function getAccessToken(user: string) {
+  const token = await keydb.get(`tokens/puffco/${user}/access_token`);
+  if (tokenValid(token)) return token;
+
+  const pending = pendingRefresh.get(user);
+  if (pending) return pending;
+
+  const request = refreshAccessToken(user).finally(() =>
+    pendingRefresh.delete(user)
+  );
+  pendingRefresh.set(user, request);
+
+  return request;
+}
+
 export async function getOtaLatest(serial?: string) {
   const req = await fetch(
     `https://api.puffco.app/api/ota/latest${
@@ -165,3 +277,35 @@ export async function heatProfiles(token: string) {
 
   return json;
 }
+
+export async function moodLights(token: string) {
+  const req = await fetch("https://api.puffco.app/api/users/me/mood-lights", {
+    headers: {
+      authorization: `Bearer ${token}`,
+      ...BaseHeaders,
+    },
+  });
+
+  if (req.status != 200)
+    throw { code: "failed_to_get_moodlights", status: req.status };
+
+  const json: MoodLight[] = await req.json();
+
+  return json;
+}
+
+export function normalizeHeatProfile(
+  profile: HeatProfile
+): NormalizedHeatProfile {
+  return {
+    id: profile.id,
+    name: profile.name,
+    temperature: Number(profile.temperature),
+    duration: Number(profile.duration),
+    color: profile.color.startsWith("#") ? profile.color : `#${profile.color}`,
+    order: profile.order,
+    units: profile.units,
+    moodLightId: profile.isMoodLight ? profile.moodLightId : null,
+    modified: profile.modified,
+  };
+}
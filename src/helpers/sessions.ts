@@ -0,0 +1,144 @@
+import { pika } from "@puff-social/commons";
+import { keydb } from "@puff-social/commons/dist/connectivity/keydb";
+
+import { FastifyRequest } from "fastify";
+import { createHash } from "crypto";
+
+import { env } from "../env";
+import { prisma } from "../connectivity/prisma";
+
+// last_used is only written back to the database when it is older than this,
+// keydb is kept up to date on every request through the key expiry.
+const LastUsedPrecision = 3_600_000;
+
+export interface SessionOwner {
+  user_id: string;
+  connection_id?: string;
+  account_id?: string;
+}
+
+export interface Session extends SessionOwner {
+  created: string;
+  last_used: string;
+}
+
+function sessionTtl(created: number, now: number) {
+  return Math.max(
+    1,
+    Math.min(
+      env.SESSION_IDLE_LIFETIME,
+      Math.floor((created + env.SESSION_LIFETIME * 1000 - now) / 1000)
+    )
+  );
+}
+
+// Sessions are keyed by their token, so a hash of it is handed out as the id
+// instead to avoid leaking usable tokens to the client.
+export function sessionId(token: string) {
+  return createHash("sha256").update(token).digest("hex").substring(0, 24);
+}
+
+export async function revokeSessions(tokens: string[]) {
+  if (tokens.length == 0) return 0;
+
+  await keydb.del(...tokens.map((token) => `sessions/${token}`));
+  const { count } = await prisma.sessions.deleteMany({
+    where: { token: { in: tokens } },
+  });
+
+  return count;
+}
+
+export async function revokeUserSessions(user: string, except?: string) {
+  const sessions = await prisma.sessions.findMany({
+    where: { user_id: user, NOT: except ? { token: except } : undefined },
+    select: { token: true },
+  });
+
+  return revokeSessions(sessions.map((session) => session.token));
+}
+
+export async function createSession(req: FastifyRequest, owner: SessionOwner) {
+  const token = pika.gen("session");
+  const now = Date.now();
+
+  const session: Session = {
+    user_id: owner.user_id,
+    ...(owner.connection_id ? { connection_id: owner.connection_id } : {}),
+    ...(owner.account_id ? { account_id: owner.account_id } : {}),
+    created: now.toString(),
+    last_used: now.toString(),
+  };
+  await keydb.hset(`sessions/${token}`, session);
+  await keydb.expire(`sessions/${token}`, sessionTtl(now, now));
+
+  await prisma.sessions.create({
+    data: {
+      ip: (req.headers["cf-connecting-ip"] ||
+        req.socket.remoteAddress ||
+        "0.0.0.0") as string,
+      token,
+      user_agent: req.headers["user-agent"] || "N/A",
+      user_id: owner.user_id,
+      connection_id: owner.connection_id,
+      account_id: owner.account_id,
+      created: new Date(now),
+      last_used: new Date(now),
+    },
+  });
+
+  return token;
+}
+
+export async function loadSession(token?: string) {
+  if (!token) return null;
+
+  const now = Date.now();
+  let session = (await keydb.hgetall(`sessions/${token}`)) as Session;
+  let rehydrated = false;
+
+  // keydb is only a cache of the sessions table, so if it was flushed rebuild
+  // the session from the database rather than logging everyone out.
+  if (!session || Object.keys(session).length == 0) {
+    const row = await prisma.sessions.findFirst({ where: { token } });
+    if (!row) return null;
+
+    session = {
+      user_id: row.user_id,
+      ...(row.connection_id ? { connection_id: row.connection_id } : {}),
+      ...(row.account_id ? { account_id: row.account_id } : {}),
+      created: row.created.getTime().toString(),
+      last_used: row.last_used.getTime().toString(),
+    };
+    rehydrated = true;
+  }
+
+  // Sessions created before expiry existed start their clock now.
+  if (!session.created) {
+    session.created = now.toString();
+    session.last_used = now.toString();
+    rehydrated = true;
+  }
+
+  const created = Number(session.created);
+  const lastUsed = Number(session.last_used || session.created);
+  if (
+    now - created > env.SESSION_LIFETIME * 1000 ||
+    now - lastUsed > env.SESSION_IDLE_LIFETIME * 1000
+  ) {
+    await revokeSessions([token]);
+    return null;
+  }
+
+  if (rehydrated || now - lastUsed > LastUsedPrecision) {
+    session.last_used = now.toString();
+    await keydb.hset(`sessions/${token}`, session);
+    await prisma.sessions.updateMany({
+      where: { token },
+      data: { last_used: new Date(now) },
+    });
+  }
+  await keydb.expire(`sessions/${token}`, sessionTtl(created, now));
+
+  return session;
+}
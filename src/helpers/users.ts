@@ -0,0 +1,248 @@
+import { keydb } from "@puff-social/commons/dist/connectivity/keydb";
+import { connections, users } from "@prisma/client";
+import {
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+} from "@aws-sdk/client-s3";
+
+import { env } from "../env";
+import { minio } from "../connectivity/minio";
+import { prisma } from "../connectivity/prisma";
+import { revokeUserSessions } from "./sessions";
+import { getOAuthAccessToken, getProvider } from "./oauth";
+import { OAuthAvatar } from "../types/OAuth";
+import { normalizeUsername } from "../utils";
+
+const MaxUsernameLength = 32;
+
+// Platform usernames don't share a namespace with ours (or each other), when
+// one is already taken a number is tacked onto the end until it's free.
+export async function availableUsername(username: string) {
+  let base = normalizeUsername(username).substring(0, MaxUsernameLength);
+  if (base.length < 3) base = "user";
+
+  for (let i = 1; ; i++) {
+    const suffix = i > 1 ? i.toString() : "";
+    const name = `${base.substring(
+      0,
+      MaxUsernameLength - suffix.length
+    )}${suffix}`;
+
+    const taken = await prisma.users.findFirst({
+      where: { name: { equals: name, mode: "insensitive" } },
+      select: { id: true },
+    });
+    if (!taken) return name;
+  }
+}
+
+export async function deleteObjects(
+  prefix: string,
+  keep?: (key: string) => boolean,
+  bucket = env.MINIO_BUCKET
+) {
+  let token: string | undefined = undefined;
+
+  do {
+    const list = await minio.send(
+      new ListObjectsV2Command({
+        Bucket: bucket,
+        Prefix: prefix,
+        ContinuationToken: token,
+      })
+    );
+
+    const objects = (list.Contents ?? []).filter(
+      (object) => object.Key && !keep?.(object.Key)
+    );
+    if (objects.length)
+      await minio.send(
+        new DeleteObjectsCommand({
+          Bucket: bucket,
+          Delete: {
+            Objects: objects.map((object) => ({ Key: object.Key })),
+          },
+        })
+      );
+
+    token = list.NextContinuationToken;
+  } while (token);
+}
+
+export function avatarKey(id: string, hash: string) {
+  return `avatars/${id}/${hash}.${hash.startsWith("a_") ? "gif" : "png"}`;
+}
+
+export function notifyUserUpdate(user: users) {
+  fetch(`${env.GATEWAY_HOST}/user/${user.id}/update`, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ user }),
+  }).catch(console.error);
+}
+
+export async function storeAvatar(id: string, avatar: OAuthAvatar) {
+  await minio.send(
+    new PutObjectCommand({
+      Bucket: env.MINIO_BUCKET,
+      Key: `avatars/${id}/${avatar.hash}.${avatar.extension}`,
+      Body: avatar.data,
+      ContentType: avatar.contentType,
+    })
+  );
+
+  return avatar.hash;
+}
+
+export function syncedProfileKey(platform: string, platform_id: string | null) {
+  return `oauth/${platform}/${platform_id}/profile`;
+}
+
+export async function deleteUser(id: string) {
+  const user = await prisma.users.findFirst({
+    where: { id },
+    include: { connections: true },
+  });
+  if (!user) return;
+
+  await revokeUserSessions(id);
+
+  await keydb.del(
+    `tokens/puffco/${id}/refresh_token`,
+    `tokens/puffco/${id}/access_token`
+  );
+  for (const connection of user.connections.filter(
+    (connection) => connection.platform != "puffco"
+  ))
+    await keydb.del(
+      `oauth/${connection.platform}/${connection.platform_id}`,
+      `oauth/${connection.platform}/${connection.platform_id}/refresh`,
+      syncedProfileKey(connection.platform, connection.platform_id)
+    );
+
+  await deleteObjects(`avatars/${id}/`);
+  await deleteObjects(`banners/${id}/`);
+  await deleteObjects(`${id}/`, undefined, env.MINIO_EXPORTS_BUCKET);
+
+  // Devices stick around for the leaderboard and whoever owns them next.
+  await prisma.devices.updateMany({
+    where: { user_id: id },
+    data: { user_id: null },
+  });
+  await prisma.firmware_watches.deleteMany({ where: { user: id } });
+
+  // Everything else hanging off the user is removed by the cascades.
+  await prisma.users.delete({ where: { id } });
+
+  console.log(`API > Deleted user ${id}`);
+}
+
+// Avatars set on our end are flagged on every connection so a resync never
+// swaps them back for the platform's.
+export async function markImageCustomized(user: string) {
+  const connections = await prisma.connections.findMany({
+    where: { user_id: user, NOT: { platform_id: null } },
+  });
+
+  for (const connection of connections)
+    await keydb.hset(
+      syncedProfileKey(connection.platform, connection.platform_id),
+      { image_customized: "1" }
+    );
+}
+
+// Pulls the latest profile from the platform behind a connection and copies the
+// avatar and name across, unless the user has since changed them on our end.
+export async function resyncConnection(
+  connection: connections,
+  overwrite = false
+) {
+  const provider = getProvider(connection.platform);
+  if (!provider || !connection.platform_id)
+    throw { code: "invalid_platform", status: 400 };
+
+  const token = await getOAuthAccessToken(
+    connection.platform,
+    connection.platform_id
+  );
+  if (!token) throw { code: "oauth_token_expired", status: 401 };
+
+  const profile = await provider.fetchProfile({ access_token: token });
+  const user = await prisma.users.findFirst({
+    where: { id: connection.user_id },
+  });
+  if (!user) throw { code: "user_not_found", status: 404 };
+
+  const syncedKey = syncedProfileKey(
+    connection.platform,
+    connection.platform_id
+  );
+  const synced = (await keydb.hgetall(syncedKey)) as {
+    display_name?: string;
+    avatar?: string;
+    image?: string;
+    image_customized?: string;
+  };
+
+  // Without a record of the last sync (first resync, or keydb was flushed) the
+  // avatar only counts as ours if it matches what the platform has now.
+  const nameCustomized = synced.display_name
+    ? user.display_name != synced.display_name
+    : true;
+  const imageCustomized =
+    synced.image_customized == "1" ||
+    (synced.image != undefined
+      ? (user.image ?? "") != synced.image
+      : user.image != null && user.image != profile.avatar);
+
+  const data: { display_name?: string; image?: string | null } = {};
+
+  if (
+    profile.display_name != user.display_name &&
+    (overwrite || !nameCustomized)
+  )
+    data.display_name = profile.display_name;
+
+  if (
+    (profile.avatar ?? "") != (synced.avatar ?? user.image ?? "") &&
+    (overwrite || !imageCustomized)
+  ) {
+    const avatar = await provider.fetchAvatar(profile);
+    data.image = avatar ? await storeAvatar(user.id, avatar) : null;
+
+    if (user.image && user.image != data.image)
+      await minio
+        .send(
+          new DeleteObjectCommand({
+            Bucket: env.MINIO_BUCKET,
+            Key: avatarKey(user.id, user.image),
+          })
+        )
+        .catch(console.error);
+  }
+
+  const updated =
+    Object.keys(data).length > 0
+      ? await prisma.users.update({ where: { id: user.id }, data })
+      : user;
+
+  // The image recorded is the last one we copied from the platform, a custom
+  // avatar that was left alone must not be recorded as synced.
+  const syncedImage =
+    "image" in data
+      ? updated.image ?? ""
+      : synced.image ?? (imageCustomized ? "" : user.image ?? "");
+
+  await keydb.hset(syncedKey, {
+    display_name: profile.display_name,
+    avatar: profile.avatar ?? "",
+    image: syncedImage,
+  });
+  if ("image" in data) await keydb.hdel(syncedKey, "image_customized");
+
+  if (updated != user) notifyUserUpdate(updated);
+
+  return updated;
+}
@@ -0,0 +1,33 @@
+import { prisma } from "../connectivity/prisma";
+import { deleteUser } from "../helpers/users";
+import { acquireLock, releaseLock } from "../helpers/locks";
+
+const DeletionInterval = 3_600_000;
+
+async function deleteScheduledUsers() {
+  const lock = await acquireLock(
+    "users/deletion/lock",
+    DeletionInterval / 1000
+  );
+  if (!lock) return;
+
+  try {
+    const users = await prisma.users.findMany({
+      where: { delete_after: { lte: new Date() } },
+      select: { id: true },
+    });
+
+    for (const user of users)
+      await deleteUser(user.id).catch((error) =>
+        console.error(`API > Failed to delete user ${user.id}`, error)
+      );
+  } finally {
+    await releaseLock("users/deletion/lock", lock);
+  }
+}
+
+deleteScheduledUsers().catch(console.error);
+setInterval(
+  () => deleteScheduledUsers().catch(console.error),
+  DeletionInterval
+);
@@ -0,0 +1,19 @@
+import { deleteExpiredExports } from "../helpers/exports";
+import { acquireLock, releaseLock } from "../helpers/locks";
+
+const SweepInterval = 3_600_000;
+
+async function sweepExports() {
+  const lock = await acquireLock("exports/lock", SweepInterval / 1000);
+  if (!lock) return;
+
+  try {
+    const count = await deleteExpiredExports();
+    if (count) console.log(`API > Removed ${count} expired exports`);
+  } finally {
+    await releaseLock("exports/lock", lock);
+  }
+}
+
+sweepExports().catch(console.error);
+setInterval(() => sweepExports().catch(console.error), SweepInterval);
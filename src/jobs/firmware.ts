@@ -0,0 +1,76 @@
+import { keydb } from "@puff-social/commons/dist/connectivity/keydb";
+
+import { prisma } from "../connectivity/prisma";
+import { getOtaLatest } from "../helpers/puffco";
+import { recordFirmwareRelease } from "../helpers/firmware";
+import { acquireLock, releaseLock } from "../helpers/locks";
+import { LogTypes, trackLog } from "../utils/logging";
+
+const PollInterval = 900_000;
+
+async function pollFirmwareWatches() {
+  // Only one instance polls, otherwise every one of them would see the change
+  // and send its own notification.
+  const lock = await acquireLock("firmware/watches/lock", PollInterval / 1000);
+  if (!lock) return;
+
+  try {
+    await checkFirmwareWatches();
+  } finally {
+    await releaseLock("firmware/watches/lock", lock);
+  }
+}
+
+async function checkFirmwareWatches() {
+  const watches = await prisma.firmware_watches.findMany();
+
+  // Any number of users can watch the same serial, it's only checked once.
+  const serials = new Map<string, typeof watches>();
+  for (const watch of watches)
+    serials.set(watch.serial, [...(serials.get(watch.serial) ?? []), watch]);
+
+  // Done one at a time on purpose, there's no rush and we don't want to be
+  // hammering the Puffco API every time this runs.
+  for (const [serial, watchers] of serials) {
+    try {
+      const ota = await getOtaLatest(serial);
+      if (!ota) continue;
+
+      await recordFirmwareRelease(serial, ota);
+
+      const previous = await keydb.hget(
+        `firmware/watches/${serial}`,
+        "version"
+      );
+      if (previous == ota.version) continue;
+
+      await keydb.hset(`firmware/watches/${serial}`, {
+        version: ota.version,
+        checked: Date.now(),
+      });
+
+      // First time we've seen this serial, nothing to compare against yet.
+      if (!previous) continue;
+
+      console.log(
+        `API > Firmware changed for ${serial}`,
+        previous,
+        ota.version
+      );
+
+      for (const watch of watchers)
+        trackLog(LogTypes.FirmwareUpdate, "firmware", {
+          serial,
+          user: watch.user,
+          nickname: watch.nickname,
+          old_version: previous,
+          version: ota.version,
+        });
+    } catch (error) {
+      console.error(`API > Failed to poll firmware for ${serial}`, error);
+    }
+  }
+}
+
+pollFirmwareWatches().catch(console.error);
+setInterval(() => pollFirmwareWatches().catch(console.error), PollInterval);
@@ -0,0 +1,11 @@
+import { buildLeaderboard } from "../helpers/leaderboard";
+
+const BuildInterval = 300_000;
+
+async function rebuildLeaderboard() {
+  const count = await buildLeaderboard();
+  if (count != null) console.log(`API > Ranked ${count} devices`);
+}
+
+rebuildLeaderboard().catch(console.error);
+setInterval(() => rebuildLeaderboard().catch(console.error), BuildInterval);
@@ -0,0 +1,51 @@
+import { keydb } from "@puff-social/commons/dist/connectivity/keydb";
+
+import { prisma } from "../connectivity/prisma";
+import { resyncConnection } from "../helpers/users";
+import { acquireLock, releaseLock } from "../helpers/locks";
+
+const ResyncInterval = 86_400;
+const CheckInterval = 3_600_000;
+const ResyncDelay = 1_000;
+const LockTimeout = 21_600;
+
+async function resyncDiscordProfiles() {
+  // Checked often since deploys restart every instance, but everyone is only
+  // gone through once a day.
+  if (await keydb.exists("oauth/resync/last")) return;
+
+  const lock = await acquireLock("oauth/resync/lock", LockTimeout);
+  if (!lock) return;
+
+  try {
+    // Another instance may have finished a run while we were taking the lock.
+    if (await keydb.exists("oauth/resync/last")) return;
+
+    const connections = await prisma.connections.findMany({
+      where: { platform: "discord" },
+    });
+
+    // One at a time with a pause in between to stay well clear of the Discord
+    // rate limits.
+    for (const connection of connections) {
+      try {
+        await resyncConnection(connection);
+      } catch (error) {
+        if (error?.code != "oauth_token_expired")
+          console.error(
+            `API > Failed to resync discord profile ${connection.id}`,
+            error
+          );
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, ResyncDelay));
+    }
+
+    await keydb.set("oauth/resync/last", Date.now(), "EX", ResyncInterval);
+  } finally {
+    await releaseLock("oauth/resync/lock", lock);
+  }
+}
+
+resyncDiscordProfiles().catch(console.error);
+setInterval(() => resyncDiscordProfiles().catch(console.error), CheckInterval);
@@ -0,0 +1,29 @@
+import { env } from "../env";
+import { prisma } from "../connectivity/prisma";
+import { revokeSessions } from "../helpers/sessions";
+
+const CollectInterval = 3_600_000;
+
+async function collectExpiredSessions() {
+  const now = Date.now();
+
+  const sessions = await prisma.sessions.findMany({
+    where: {
+      OR: [
+        { created: { lt: new Date(now - env.SESSION_LIFETIME * 1000) } },
+        { last_used: { lt: new Date(now - env.SESSION_IDLE_LIFETIME * 1000) } },
+      ],
+    },
+    select: { token: true },
+    take: 1000,
+  });
+
+  const count = await revokeSessions(sessions.map((session) => session.token));
+  if (count) console.log(`API > Removed ${count} expired sessions`);
+}
+
+collectExpiredSessions().catch(console.error);
+setInterval(
+  () => collectExpiredSessions().catch(console.error),
+  CollectInterval
+);
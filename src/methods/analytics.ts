@@ -7,9 +7,11 @@ import {
   verifyRequest,
   diagValidation,
   trackingValidation,
+  deviceLogsValidation,
   sanitize,
 } from "../utils";
 import { LogTypes, Owner, trackLog } from "../utils/logging";
+import { queueLeaderboardUpdate } from "../helpers/leaderboard";
 import { DeviceModels, SerialPrefixMap } from "@puff-social/commons/dist/puffco";
 
 export async function trackDiags(req: FastifyRequest, res: FastifyReply) {
@@ -169,6 +171,14 @@ export async function trackDevice(req: FastifyRequest, res: FastifyReply) {
           mac: validate.device.mac,
         },
       });
+
+      if (
+        existing.dabs != validate.device.totalDabs ||
+        existing.avg_dabs != validate.device.dabsPerDay ||
+        existing.firmware != validate.device.firmware ||
+        (req.user && req.user.id != existing.user_id)
+      )
+        queueLeaderboardUpdate(existing.id);
     } else {
       const id = pika.gen("device");
       trackLog(LogTypes.NewDevice, "devices", {
@@ -201,6 +211,8 @@ export async function trackDevice(req: FastifyRequest, res: FastifyReply) {
           ...(req.user ? { user_id: req.user.id } : {}),
         },
       });
+
+      if (req.user) queueLeaderboardUpdate(id);
     }
 
     const device = await prisma.devices.findFirst({
@@ -230,3 +242,70 @@ export async function trackDevice(req: FastifyRequest, res: FastifyReply) {
     console.error(error);
   }
 }
+
+export async function trackDeviceLogs(req: FastifyRequest, res: FastifyReply) {
+  if (!req.headers["x-signature"])
+    return res.status(400).send({ code: "invalid_log_data" });
+  const body = verifyRequest(
+    Buffer.from(req.rawBody as string, "base64"),
+    req.headers["x-signature"] as string
+  );
+
+  try {
+    const validate = await deviceLogsValidation.parseAsync(body);
+
+    const device = await prisma.devices.findFirst({
+      where: { mac: validate.mac },
+      select: { id: true },
+    });
+    if (!device)
+      return res
+        .status(404)
+        .send({ success: false, error: { code: "device_not_found" } });
+
+    // The device clock drifts from real time, if the app sent us the device's
+    // current clock we can use it to work out when the log really happened.
+    const offset = validate.deviceTime
+      ? Math.floor(Date.now() / 1000) - validate.deviceTime
+      : 0;
+
+    // Logs get re-sent every time the app reads the ring, the offset can differ
+    // between reads so check the device timestamp on its own before inserting.
+    const existing = await prisma.device_logs.findMany({
+      where: {
+        device_id: device.id,
+        timestamp: {
+          in: validate.logs.map((log) => new Date(log.timestamp * 1000)),
+        },
+      },
+      select: { type: true, timestamp: true },
+    });
+    const seen = new Set(
+      existing.map((log) => `${log.type}/${log.timestamp.getTime()}`)
+    );
+    const logs = validate.logs.filter(
+      (log) => !seen.has(`${log.type}/${log.timestamp * 1000}`)
+    );
+
+    const { count } = await prisma.device_logs.createMany({
+      data: logs.map((log) => ({
+        id: pika.gen("device_log"),
+        device_id: device.id,
+        log_id: log.log_id,
+        type: log.type,
+        timestamp: new Date(log.timestamp * 1000),
+        real_timestamp: new Date((log.timestamp + offset) * 1000),
+        data: log.data,
+      })),
+      skipDuplicates: true,
+    });
+
+    return res.status(200).send({
+      success: true,
+      data: { received: validate.logs.length, inserted: count },
+    });
+  } catch (error) {
+    console.error(error);
+    return res.status(400).send({ code: "invalid_log_data" });
+  }
+}
@@ -3,9 +3,21 @@ import { keydb } from "@puff-social/commons/dist/connectivity/keydb";
 
 import { hash, verify } from "argon2";
 import { FastifyRequest } from "fastify";
+import { createHash, randomBytes } from "crypto";
 
+import { env } from "../../env";
+import { mailer } from "../../connectivity/mailer";
 import { prisma } from "../../connectivity/prisma";
-import { loginValidation, registerValidation } from "../../utils";
+import { createSession, revokeUserSessions } from "../../helpers/sessions";
+import { createTwoFactorChallenge } from "./twofactor";
+import { checkLockout, clearFailures, recordFailure } from "../../ratelimit";
+import {
+  loginValidation,
+  emailVerificationValidation,
+  passwordResetConfirmValidation,
+  passwordResetValidation,
+  registerValidation,
+} from "../../utils";
 import { LogTypes, trackLog } from "../../utils/logging";
 
 export async function createAccount(req: FastifyRequest, res) {
@@ -62,24 +74,15 @@ export async function createAccount(req: FastifyRequest, res) {
     },
   });
 
-  const session = pika.gen("session");
-  await keydb.hset(`sessions/${session}`, {
+  sendVerificationEmail({ id: account_id, email: email.toLowerCase() }).catch(
+    (error) => console.error("error sending verification email", error)
+  );
+
+  const session = await createSession(req, {
     user_id: id,
     account_id,
   });
 
-  await prisma.sessions.create({
-    data: {
-      ip: (req.headers["cf-connecting-ip"] ||
-        req.socket.remoteAddress ||
-        "0.0.0.0") as string,
-      token: session,
-      user_agent: req.headers["user-agent"] || "N/A",
-      user_id: id,
-      account_id,
-    },
-  });
-
   return res.status(200).send({
     success: true,
     data: {
@@ -91,6 +94,10 @@ export async function createAccount(req: FastifyRequest, res) {
 
 export async function loginAccount(req: FastifyRequest, res) {
   const { email, password } = await loginValidation.parseAsync(req.body);
+
+  const locked = await checkLockout(res, `login/${email.toLowerCase()}`);
+  if (locked) return locked;
+
   const account = await prisma.accounts.findFirst({
     include: { users: true },
     where: {
@@ -105,30 +112,32 @@ export async function loginAccount(req: FastifyRequest, res) {
     });
 
   const check = await verify(account.password, password);
-  if (!check)
+  if (!check) {
+    await recordFailure(`login/${account.email}`);
     return res.status(400).send({
       error: true,
       code: "invalid_password",
     });
+  }
 
-  const session = pika.gen("session");
-  await keydb.hset(`sessions/${session}`, {
+  // Failures are only cleared once the second factor passes too, otherwise
+  // logging in again would wipe out failed code attempts.
+  if (account.totp_enabled)
+    return res.status(200).send({
+      success: true,
+      data: {
+        requires_2fa: true,
+        challenge: await createTwoFactorChallenge(account),
+      },
+    });
+
+  await clearFailures(`login/${account.email}`);
+
+  const session = await createSession(req, {
     user_id: account.user_id,
     account_id: account.id,
   });
 
-  await prisma.sessions.create({
-    data: {
-      ip: (req.headers["cf-connecting-ip"] ||
-        req.socket.remoteAddress ||
-        "0.0.0.0") as string,
-      token: session,
-      user_agent: req.headers["user-agent"] || "N/A",
-      user_id: account.user_id,
-      account_id: account.id,
-    },
-  });
-
   return res.status(200).send({
     success: true,
     data: {
@@ -137,3 +146,136 @@ export async function loginAccount(req: FastifyRequest, res) {
     },
   });
 }
+
+// Emailed tokens are only ever stored hashed, the raw token only exists in the email.
+function emailTokenKey(type: string, token: string) {
+  return `${type}/${createHash("sha256").update(token).digest("hex")}`;
+}
+
+async function sendVerificationEmail(account: { id: string; email: string }) {
+  const token = randomBytes(32).toString("hex");
+  await keydb.set(
+    emailTokenKey("email_verification", token),
+    account.id,
+    "EX",
+    86_400
+  );
+
+  await mailer.send({
+    to: account.email,
+    subject: "Verify your puff.social email",
+    text: `Thanks for signing up to puff.social!\n\nUse the link below to verify your email, it expires in 24 hours.\n\n${env.APPLICATION_HOST}/verify?token=${token}`,
+  });
+}
+
+async function sendPasswordResetEmail(account: { id: string; email: string }) {
+  const token = randomBytes(32).toString("hex");
+  await keydb.set(
+    emailTokenKey("password_reset", token),
+    account.id,
+    "EX",
+    3600
+  );
+
+  await mailer.send({
+    to: account.email,
+    subject: "Reset your puff.social password",
+    text: `Someone requested a password reset for your puff.social account.\n\nUse the link below to set a new password, it expires in one hour.\n\n${env.APPLICATION_HOST}/reset?token=${token}\n\nIf this wasn't you, you can ignore this email.`,
+  });
+}
+
+export async function requestPasswordReset(req: FastifyRequest, res) {
+  const { email } = await passwordResetValidation.parseAsync(req.body);
+  const account = await prisma.accounts.findFirst({
+    where: {
+      email: email.toLowerCase(),
+    },
+  });
+
+  // Always reply the same way, and without waiting on the mail, so this can't
+  // be used to find registered emails.
+  if (account)
+    sendPasswordResetEmail(account).catch((error) =>
+      console.error("error sending password reset email", error)
+    );
+
+  return res.status(204).send();
+}
+
+export async function confirmPasswordReset(req: FastifyRequest, res) {
+  const { token, password } = await passwordResetConfirmValidation.parseAsync(
+    req.body
+  );
+
+  const accountId = await keydb.getdel(emailTokenKey("password_reset", token));
+  if (!accountId)
+    return res.status(400).send({
+      error: true,
+      code: "invalid_reset_token",
+    });
+
+  const account = await prisma.accounts.update({
+    where: { id: accountId },
+    // They got the token from their inbox, so the email is verified now too.
+    data: { password: await hash(password), verified: true },
+  });
+
+  await revokeUserSessions(account.user_id);
+
+  return res.status(204).send();
+}
+
+export async function verifyEmail(req: FastifyRequest, res) {
+  const { token } = await emailVerificationValidation.parseAsync(req.body);
+
+  const accountId = await keydb.getdel(
+    emailTokenKey("email_verification", token)
+  );
+  if (!accountId)
+    return res.status(400).send({
+      error: true,
+      code: "invalid_verification_token",
+    });
+
+  await prisma.accounts.update({
+    where: { id: accountId },
+    data: { verified: true },
+  });
+
+  return res.status(204).send();
+}
+
+export async function resendVerificationEmail(req: FastifyRequest, res) {
+  const account = await prisma.accounts.findFirst({
+    where: { user_id: req.user.id },
+  });
+
+  if (!account)
+    return res.status(400).send({
+      error: true,
+      code: "account_not_found",
+    });
+
+  if (account.verified)
+    return res.status(400).send({
+      error: true,
+      code: "email_already_verified",
+    });
+
+  const recent = await keydb.set(
+    `email_verification/resend/${account.id}`,
+    "1",
+    "EX",
+    60,
+    "NX"
+  );
+  if (!recent)
+    return res.status(429).send({
+      error: true,
+      code: "verification_recently_sent",
+    });
+
+  await sendVerificationEmail(account);
+
+  return res.status(204).send();
+}
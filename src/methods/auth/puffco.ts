@@ -1,11 +1,10 @@
-import { keydb } from "@puff-social/commons/dist/connectivity/keydb";
 import { pika } from "@puff-social/commons";
 
-import { decode, JwtPayload } from "jsonwebtoken";
 import { FastifyRequest } from "fastify";
 
 import { prisma } from "../../connectivity/prisma";
-import { fetchUser, login } from "../../helpers/puffco";
+import { fetchUser, login, storeTokens } from "../../helpers/puffco";
+import { createSession } from "../../helpers/sessions";
 import { sanitize } from "../../utils";
 import { trackLog, LogTypes } from "../../utils/logging";
 
@@ -17,33 +16,17 @@ export async function puffcoLogin(
   const log = await login(email, password);
   const puffcoUser = await fetchUser(log.accessToken);
 
-  const decodedAccessToken = decode(log.accessToken) as JwtPayload;
-  const decodedRefreshToken = decode(log.refreshToken) as JwtPayload;
-
   const existingConnection = await prisma.connections.findFirst({
     where: { platform: "puffco", platform_id: puffcoUser.id.toString() },
     include: { users: true },
   });
 
   if (existingConnection) {
-    const session = pika.gen("session");
-    await keydb.hset(`sessions/${session}`, {
+    const session = await createSession(req, {
       user_id: existingConnection.users.id,
       connection_id: existingConnection.id,
     });
 
-    await prisma.sessions.create({
-      data: {
-        ip: (req.headers["cf-connecting-ip"] ||
-          req.socket.remoteAddress ||
-          "0.0.0.0") as string,
-        token: session,
-        user_agent: req.headers["user-agent"] || "N/A",
-        user_id: existingConnection.users.id,
-        connection_id: existingConnection.id,
-      },
-    });
-
     await prisma.connections.update({
       where: { id: existingConnection.id },
       data: {
@@ -51,19 +34,7 @@ export async function puffcoLogin(
       },
     });
 
-    await keydb.set(
-      `tokens/puffco/${existingConnection.users.id}/refresh_token`,
-      log.refreshToken,
-      "EXAT",
-      Math.floor(decodedRefreshToken.exp as number)
-    );
-
-    await keydb.set(
-      `tokens/puffco/${existingConnection.users.id}/access_token`,
-      log.accessToken,
-      "EXAT",
-      Math.floor(decodedAccessToken.exp as number)
-    );
+    await storeTokens(existingConnection.users.id, log);
 
     return res.status(200).send({
       success: true,
@@ -105,37 +76,12 @@ export async function puffcoLogin(
     },
   });
 
-  const session = pika.gen("session");
-  await keydb.hset(`sessions/${session}`, {
+  const session = await createSession(req, {
     user_id: id,
-    connection_id: connection_id,
+    connection_id,
   });
 
-  await prisma.sessions.create({
-    data: {
-      ip: (req.headers["cf-connecting-ip"] ||
-        req.socket.remoteAddress ||
-        "0.0.0.0") as string,
-      token: session,
-      user_agent: req.headers["user-agent"] || "N/A",
-      user_id: id,
-      connection_id,
-    },
-  });
-
-  await keydb.set(
-    `tokens/puffco/${id}/refresh_token`,
-    log.refreshToken,
-    "EXAT",
-    Math.floor(decodedRefreshToken.exp as number)
-  );
-
-  await keydb.set(
-    `tokens/puffco/${id}/access_token`,
-    log.accessToken,
-    "EXAT",
-    Math.floor(decodedAccessToken.exp as number)
-  );
+  await storeTokens(id, log);
 
   return res.status(200).send({
     success: true,
@@ -0,0 +1,256 @@
+import { keydb } from "@puff-social/commons/dist/connectivity/keydb";
+import { accounts } from "@prisma/client";
+
+import { authenticator } from "otplib";
+import { FastifyRequest } from "fastify";
+import { createHash, randomBytes } from "crypto";
+
+import { prisma } from "../../connectivity/prisma";
+import { createSession } from "../../helpers/sessions";
+import { checkLockout, clearFailures, recordFailure } from "../../ratelimit";
+import { twoFactorCodeValidation, twoFactorLoginValidation } from "../../utils";
+
+const RecoveryCodeCount = 10;
+const MaxChallengeAttempts = 5;
+const TotpStep = 30_000;
+
+function hashRecoveryCode(code: string) {
+  return createHash("sha256")
+    .update(code.replace(/-/g, "").toLowerCase())
+    .digest("hex");
+}
+
+function generateRecoveryCodes() {
+  const codes = Array.from({ length: RecoveryCodeCount }, () => {
+    const code = randomBytes(5).toString("hex");
+    return `${code.substring(0, 5)}-${code.substring(5)}`;
+  });
+
+  return { codes, hashed: codes.map(hashRecoveryCode) };
+}
+
+// A code stays valid for its whole window, so the time step it was accepted for
+// is claimed to stop the same code being used twice.
+async function checkTotp(account: string, secret: string, code: string) {
+  const delta = authenticator.checkDelta(code, secret);
+  if (delta == null) return false;
+
+  const step = Math.floor(Date.now() / TotpStep) + delta;
+  const claimed = await keydb.set(
+    `2fa/used/${account}/${step}`,
+    "1",
+    "EX",
+    90,
+    "NX"
+  );
+
+  return claimed == "OK";
+}
+
+// Checks a TOTP code, or failing that a recovery code which is used up if it matches.
+async function verifyAccountCode(account: accounts, code: string) {
+  if (!account.totp_secret) return false;
+  if (await checkTotp(account.id, account.totp_secret, code)) return true;
+
+  // Removed in place and only if it's still there, so two requests can't both
+  // use it.
+  const hashed = hashRecoveryCode(code);
+  const count = await prisma.$executeRaw`
+    UPDATE accounts SET recovery_codes = array_remove(recovery_codes, ${hashed})
+    WHERE id = ${account.id} AND ${hashed} = ANY(recovery_codes)`;
+
+  return count == 1;
+}
+
+export async function createTwoFactorChallenge(account: accounts) {
+  const challenge = randomBytes(32).toString("hex");
+  await keydb.set(`2fa/challenge/${challenge}`, account.id, "EX", 300);
+
+  return challenge;
+}
+
+export async function enrollTwoFactor(req: FastifyRequest, res) {
+  const account = await prisma.accounts.findFirst({
+    where: { user_id: req.user.id },
+  });
+
+  if (!account)
+    return res.status(400).send({
+      error: true,
+      code: "account_not_found",
+    });
+
+  if (account.totp_enabled)
+    return res.status(400).send({
+      error: true,
+      code: "2fa_already_enabled",
+    });
+
+  const secret = authenticator.generateSecret();
+  await keydb.set(`2fa/pending/${account.id}`, secret, "EX", 600);
+
+  return res.status(200).send({
+    success: true,
+    data: {
+      secret,
+      uri: authenticator.keyuri(account.email, "puff.social", secret),
+    },
+  });
+}
+
+export async function activateTwoFactor(req: FastifyRequest, res) {
+  const { code } = await twoFactorCodeValidation.parseAsync(req.body);
+  const account = await prisma.accounts.findFirst({
+    where: { user_id: req.user.id },
+  });
+
+  if (!account)
+    return res.status(400).send({
+      error: true,
+      code: "account_not_found",
+    });
+
+  const secret = await keydb.get(`2fa/pending/${account.id}`);
+  if (!secret)
+    return res.status(400).send({
+      error: true,
+      code: "2fa_not_enrolling",
+    });
+
+  if (!(await checkTotp(account.id, secret, code)))
+    return res.status(400).send({
+      error: true,
+      code: "invalid_2fa_code",
+    });
+
+  const { codes, hashed } = generateRecoveryCodes();
+  await prisma.accounts.update({
+    where: { id: account.id },
+    data: { totp_secret: secret, totp_enabled: true, recovery_codes: hashed },
+  });
+  await keydb.del(`2fa/pending/${account.id}`);
+
+  return res.status(200).send({
+    success: true,
+    data: { recovery_codes: codes },
+  });
+}
+
+export async function disableTwoFactor(req: FastifyRequest, res) {
+  const { code } = await twoFactorCodeValidation.parseAsync(req.body);
+  const account = await prisma.accounts.findFirst({
+    where: { user_id: req.user.id },
+  });
+
+  if (!account || !account.totp_enabled)
+    return res.status(400).send({
+      error: true,
+      code: "2fa_not_enabled",
+    });
+
+  if (!(await verifyAccountCode(account, code)))
+    return res.status(400).send({
+      error: true,
+      code: "invalid_2fa_code",
+    });
+
+  await prisma.accounts.update({
+    where: { id: account.id },
+    data: { totp_secret: null, totp_enabled: false, recovery_codes: [] },
+  });
+
+  return res.status(204).send();
+}
+
+export async function regenerateRecoveryCodes(req: FastifyRequest, res) {
+  const { code } = await twoFactorCodeValidation.parseAsync(req.body);
+  const account = await prisma.accounts.findFirst({
+    where: { user_id: req.user.id },
+  });
+
+  if (!account || !account.totp_enabled || !account.totp_secret)
+    return res.status(400).send({
+      error: true,
+      code: "2fa_not_enabled",
+    });
+
+  if (!(await checkTotp(account.id, account.totp_secret, code)))
+    return res.status(400).send({
+      error: true,
+      code: "invalid_2fa_code",
+    });
+
+  const { codes, hashed } = generateRecoveryCodes();
+  await prisma.accounts.update({
+    where: { id: account.id },
+    data: { recovery_codes: hashed },
+  });
+
+  return res.status(200).send({
+    success: true,
+    data: { recovery_codes: codes },
+  });
+}
+
+export async function loginTwoFactor(req: FastifyRequest, res) {
+  const { challenge, code } = await twoFactorLoginValidation.parseAsync(
+    req.body
+  );
+
+  const accountId = await keydb.get(`2fa/challenge/${challenge}`);
+  if (!accountId)
+    return res.status(400).send({
+      error: true,
+      code: "invalid_2fa_challenge",
+    });
+
+  const account = await prisma.accounts.findFirst({
+    include: { users: true },
+    where: { id: accountId },
+  });
+  if (!account)
+    return res.status(400).send({
+      error: true,
+      code: "invalid_2fa_challenge",
+    });
+
+  const locked = await checkLockout(res, `login/${account.email}`);
+  if (locked) return locked;
+
+  if (!(await verifyAccountCode(account, code))) {
+    await recordFailure(`login/${account.email}`);
+
+    await keydb.set(`2fa/challenge/${challenge}/attempts`, 0, "EX", 300, "NX");
+    const attempts = await keydb.incr(`2fa/challenge/${challenge}/attempts`);
+
+    if (attempts >= MaxChallengeAttempts)
+      await keydb.del(
+        `2fa/challenge/${challenge}`,
+        `2fa/challenge/${challenge}/attempts`
+      );
+
+    return res.status(400).send({
+      error: true,
+      code: "invalid_2fa_code",
+    });
+  }
+
+  await keydb.del(
+    `2fa/challenge/${challenge}`,
+    `2fa/challenge/${challenge}/attempts`
+  );
+  await clearFailures(`login/${account.email}`);
+
+  const session = await createSession(req, {
+    user_id: account.user_id,
+    account_id: account.id,
+  });
+
+  return res.status(200).send({
+    success: true,
+    data: {
+      user: account.users,
+      token: session,
+    },
+  });
+}
@@ -0,0 +1,186 @@
+import { keydb } from "@puff-social/commons/dist/connectivity/keydb";
+import { pika } from "@puff-social/commons";
+
+import { FastifyReply, FastifyRequest } from "fastify";
+
+import { prisma } from "../connectivity/prisma";
+import { getProvider, oauthRedirect, storeOAuthTokens } from "../helpers/oauth";
+import { fetchUser, login, storeTokens } from "../helpers/puffco";
+import { revokeSessions } from "../helpers/sessions";
+import { resyncConnection, syncedProfileKey } from "../helpers/users";
+
+async function linkConnection(
+  user: string,
+  platform: string,
+  platform_id: string
+) {
+  const existing = await prisma.connections.findFirst({
+    where: { platform, platform_id },
+  });
+  if (existing && existing.user_id != user)
+    throw { code: "connection_in_use", status: 409 };
+  if (existing) return existing;
+
+  const linked = await prisma.connections.findFirst({
+    where: { platform, user_id: user },
+  });
+  if (linked) throw { code: "platform_already_linked", status: 409 };
+
+  return prisma.connections.create({
+    data: {
+      id: pika.gen("connection"),
+      platform,
+      platform_id,
+      user_id: user,
+      verified: true,
+    },
+  });
+}
+
+function linkError(res: FastifyReply, error: any) {
+  if (!error?.code) throw error;
+
+  return res
+    .status(error.status == 409 ? 409 : 400)
+    .send({ success: false, error: { code: error.code } });
+}
+
+export async function getConnections(req: FastifyRequest, res: FastifyReply) {
+  const connections = await prisma.connections.findMany({
+    where: { user_id: req.user.id },
+  });
+
+  return res.status(200).send({ success: true, data: { connections } });
+}
+
+export async function linkOAuth(
+  req: FastifyRequest<{
+    Params: { platform: string };
+    Querystring: { state: string; code: string };
+  }>,
+  res: FastifyReply
+) {
+  const { state, code } = req.query;
+
+  const provider = getProvider(req.params.platform);
+  if (!provider)
+    return res.status(400).send({ success: false, error: "invalid_platform" });
+
+  const validState = await keydb.exists(`oauth_state/${state}`);
+  if (!validState)
+    return res.status(400).send({ success: false, error: "invalid_state" });
+
+  try {
+    const tokens = await provider.exchangeCode(
+      code,
+      oauthRedirect(req, provider.name)
+    );
+    const profile = await provider.fetchProfile(tokens);
+    await keydb.del(`oauth_state/${state}`);
+
+    const connection = await linkConnection(
+      req.user.id,
+      provider.name,
+      profile.id
+    );
+    await storeOAuthTokens(provider.name, profile.id, tokens);
+
+    return res.status(200).send({ success: true, data: { connection } });
+  } catch (error) {
+    return linkError(res, error);
+  }
+}
+
+export async function linkPuffco(
+  req: FastifyRequest<{ Body: { email: string; password: string } }>,
+  res: FastifyReply
+) {
+  try {
+    const { email, password } = req.body;
+    const log = await login(email, password);
+    const puffcoUser = await fetchUser(log.accessToken);
+
+    const connection = await linkConnection(
+      req.user.id,
+      "puffco",
+      puffcoUser.id.toString()
+    );
+
+    await storeTokens(req.user.id, log);
+
+    return res.status(200).send({ success: true, data: { connection } });
+  } catch (error) {
+    return linkError(res, error);
+  }
+}
+
+export async function unlinkConnection(
+  req: FastifyRequest<{ Params: { id: string } }>,
+  res: FastifyReply
+) {
+  const user = await prisma.users.findFirst({
+    where: { id: req.user.id },
+    include: { accounts: true, connections: true },
+  });
+
+  const connection = user?.connections.find(
+    (connection) => connection.id == req.params.id
+  );
+  if (!user || !connection)
+    return res
+      .status(404)
+      .send({ success: false, error: { code: "connection_not_found" } });
+
+  if (user.accounts.length + user.connections.length <= 1)
+    return res
+      .status(400)
+      .send({ success: false, error: { code: "last_login_method" } });
+
+  // Sessions that logged in through this connection go with it.
+  const sessions = await prisma.sessions.findMany({
+    where: { connection_id: connection.id },
+    select: { token: true },
+  });
+  await revokeSessions(sessions.map((session) => session.token));
+
+  await prisma.connections.delete({ where: { id: connection.id } });
+
+  if (connection.platform == "puffco")
+    await keydb.del(
+      `tokens/puffco/${user.id}/refresh_token`,
+      `tokens/puffco/${user.id}/access_token`
+    );
+  else
+    await keydb.del(
+      `oauth/${connection.platform}/${connection.platform_id}`,
+      `oauth/${connection.platform}/${connection.platform_id}/refresh`,
+      syncedProfileKey(connection.platform, connection.platform_id)
+    );
+
+  return res.status(204).send();
+}
+
+export async function resyncConnectionRoute(
+  req: FastifyRequest<{ Params: { id: string } }>,
+  res: FastifyReply
+) {
+  const connection = await prisma.connections.findFirst({
+    where: { id: req.params.id, user_id: req.user.id },
+  });
+  if (!connection)
+    return res
+      .status(404)
+      .send({ success: false, error: { code: "connection_not_found" } });
+
+  try {
+    const user = await resyncConnection(connection, true);
+
+    return res.status(200).send({ success: true, data: { user } });
+  } catch (error) {
+    if (!error?.code) throw error;
+
+    return res
+      .status(error.status ?? 400)
+      .send({ success: false, error: { code: error.code } });
+  }
+}
@@ -1,8 +1,20 @@
 import { FastifyReply, FastifyRequest } from "fastify";
+import { ZodError } from "zod";
 
 import { prisma } from "../connectivity/prisma";
-import { getOtaLatest } from "../helpers/puffco";
-import { sanitize } from "../utils";
+import { getCachedOta, parseOtaFirmware } from "../helpers/firmware";
+import { DabLogType, PrivateDeviceFields } from "../constants";
+import { deviceHistoryValidation, sanitize } from "../utils";
+import { publicDevice, showsOnLeaderboard } from "../helpers/privacy";
+import { LogTimestamp } from "../helpers/logs";
+
+const BucketLengths = {
+  hour: 3_600_000,
+  day: 86_400_000,
+  week: 604_800_000,
+  month: 2_592_000_000,
+};
+const MaxHistoryBuckets = 1000;
 
 export async function getDevicesRoute(
   req: FastifyRequest<{ Querystring: { limit?: string } }>,
@@ -17,30 +29,14 @@ export async function getDevicesRoute(
   const newDevices = await Promise.all(
     devices.map(async (device) => {
       if (!device.serial_number) return device;
-      const ota = await getOtaLatest(device.serial_number).catch(() => null);
+      const ota = await getCachedOta(device.serial_number).catch(() => null);
 
       return {
         ...device,
         ota: ota
           ? {
               version: ota.version,
-              ...(() => {
-                const match =
-                  /([a-zA-Z].*)-(application|[a-zA-Z].*-[a-zA-Z].*)-([0-9a-zA-Z]{7})-release.(gbl|puff)/.exec(
-                    ota.fileMedia.filename
-                  );
-                if (!match) return undefined;
-
-                const [_, codename, name, gitHash, type] = match;
-
-                return {
-                  codename,
-                  name,
-                  gitHash,
-                  type,
-                  date: new Date(ota.fileMedia.created),
-                };
-              })(),
+              ...parseOtaFirmware(ota),
             }
           : undefined,
       };
@@ -71,20 +67,16 @@ export async function getDeviceByMac(
       return res
         .status(404)
         .send({ success: false, error: { code: "device_not_found" } });
-    const position = await prisma.device_leaderboard.findFirst({
-      where: { id: device.id },
-    });
+    const position = (await showsOnLeaderboard(device.users))
+      ? await prisma.device_leaderboard.findFirst({
+          where: { id: device.id },
+        })
+      : null;
 
     return res.status(200).send({
       success: true,
       data: {
-        device: sanitize(device, [
-          "mac",
-          "git_hash",
-          "profiles",
-          "last_ip",
-          "serial_number",
-        ]),
+        device: sanitize(publicDevice(device), PrivateDeviceFields),
         position: position?.position,
       },
     });
@@ -95,3 +87,72 @@ export async function getDeviceByMac(
       .send({ success: false, error: { code: "internal_error" } });
   }
 }
+
+export async function getDeviceHistory(
+  req: FastifyRequest<{
+    Params: { id: string };
+    Querystring: Record<string, string>;
+  }>,
+  res: FastifyReply
+) {
+  try {
+    const { bucket, from, to, timezone } =
+      await deviceHistoryValidation.parseAsync(req.query);
+
+    const end = to ?? new Date();
+    const start = from ?? new Date(end.getTime() - BucketLengths.day * 30);
+    if (
+      start >= end ||
+      (end.getTime() - start.getTime()) / BucketLengths[bucket] >
+        MaxHistoryBuckets
+    )
+      return res
+        .status(400)
+        .send({ success: false, error: { code: "invalid_history_range" } });
+
+    const device = await prisma.devices.findFirst({
+      where: { id: req.params.id },
+      select: { id: true, dabs: true, avg_dabs: true },
+    });
+    if (!device)
+      return res
+        .status(404)
+        .send({ success: false, error: { code: "device_not_found" } });
+
+    // Buckets are cut on the wall clock of the timezone, then turned back into
+    // an instant so the start of each bucket serializes correctly.
+    const rows = await prisma.$queryRaw<{ bucket: Date; dabs: number }[]>`
+      SELECT date_trunc(${bucket}, ${LogTimestamp} AT TIME ZONE 'UTC' AT TIME ZONE ${timezone}) AT TIME ZONE ${timezone} AS bucket,
+        count(*)::int AS dabs
+      FROM device_logs
+      WHERE device_id = ${device.id}
+        AND type = ${DabLogType}
+        AND ${LogTimestamp} >= ${start}
+        AND ${LogTimestamp} < ${end}
+      GROUP BY 1
+      ORDER BY 1`;
+
+    return res.status(200).send({
+      success: true,
+      data: {
+        device,
+        bucket,
+        timezone,
+        from: start,
+        to: end,
+        history: rows,
+      },
+    });
+  } catch (error) {
+    if (error instanceof ZodError)
+      return res.status(400).send({
+        success: false,
+        error: { code: "validation_error", issues: error.issues },
+      });
+
+    console.error("error with get device history", error);
+    return res
+      .status(500)
+      .send({ success: false, error: { code: "internal_error" } });
+  }
+}
@@ -0,0 +1,74 @@
+import { pika } from "@puff-social/commons";
+import { keydb } from "@puff-social/commons/dist/connectivity/keydb";
+
+import { FastifyReply, FastifyRequest } from "fastify";
+import { GetObjectCommand } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+
+import { env } from "../env";
+import { minio } from "../connectivity/minio";
+import { buildExport, ExportLifetime, ExportStatus } from "../helpers/exports";
+
+export async function requestExport(req: FastifyRequest, res: FastifyReply) {
+  // Only one export per day, asking again just hands back the recent one.
+  const recent = await keydb.get(`exports/user/${req.user.id}`);
+  if (recent) {
+    const status = (await keydb.hgetall(`exports/${recent}`)) as ExportStatus;
+    if (status && Object.keys(status).length > 0)
+      return res.status(200).send({
+        success: true,
+        data: { id: recent, status: status.status },
+      });
+  }
+
+  const id = pika.gen("export");
+  await keydb.hset(`exports/${id}`, {
+    user_id: req.user.id,
+    status: "pending",
+    created: Date.now().toString(),
+  });
+  await keydb.expire(`exports/${id}`, ExportLifetime);
+  await keydb.set(`exports/user/${req.user.id}`, id, "EX", 86_400);
+
+  buildExport(id, req.user.id).catch(console.error);
+
+  return res.status(202).send({
+    success: true,
+    data: { id, status: "pending" },
+  });
+}
+
+export async function getExport(
+  req: FastifyRequest<{ Params: { id: string } }>,
+  res: FastifyReply
+) {
+  const status = (await keydb.hgetall(
+    `exports/${req.params.id}`
+  )) as ExportStatus;
+  if (!status || status.user_id != req.user.id)
+    return res
+      .status(404)
+      .send({ success: false, error: { code: "export_not_found" } });
+
+  const url =
+    status.status == "complete" && status.key
+      ? await getSignedUrl(
+          minio,
+          new GetObjectCommand({
+            Bucket: env.MINIO_EXPORTS_BUCKET,
+            Key: status.key,
+          }),
+          { expiresIn: 3600 }
+        )
+      : undefined;
+
+  return res.status(200).send({
+    success: true,
+    data: {
+      id: req.params.id,
+      status: status.status,
+      created: new Date(Number(status.created)),
+      url,
+    },
+  });
+}
@@ -1,36 +1,166 @@
+import { pika } from "@puff-social/commons";
+
 import { FastifyReply, FastifyRequest } from "fastify";
+import { ZodError } from "zod";
+
+import { prisma } from "../connectivity/prisma";
 import { getOtaLatest } from "../helpers/puffco";
+import {
+  getCachedOta,
+  parseOtaFirmware,
+  serialPrefix,
+} from "../helpers/firmware";
+import {
+  firmwareWatchUpdateValidation,
+  firmwareWatchValidation,
+} from "../utils";
 
 export async function getOtaFirmware(
   req: FastifyRequest<{ Params: { serial: string } }>,
   res: FastifyReply
 ) {
-  const ota = await getOtaLatest(req.params.serial);
+  const ota = await getCachedOta(req.params.serial);
 
   if (!ota)
     return res.status(404).send({ error: true, code: "firmware_not_found" });
 
   const firmware = {
     version: ota.version,
-    ...(() => {
-      const match =
-        /([a-zA-Z].*)-(application|[a-zA-Z].*-[a-zA-Z].*)-([0-9a-zA-Z]{7})-release.(gbl|puff)/.exec(
-          ota.fileMedia.filename
-        );
-      if (!match) return undefined;
-
-      const [_, codename, name, gitHash, type] = match;
-
-      return {
-        codename,
-        name,
-        gitHash,
-        type,
-        date: new Date(ota.fileMedia.created),
-        release: ota.fileMedia.originalUrl,
-      };
-    })(),
+    ...parseOtaFirmware(ota),
   };
 
   return res.status(200).send({ success: true, data: { firmware } });
 }
+
+export async function getFirmwareHistory(
+  req: FastifyRequest<{ Params: { serial: string } }>,
+  res: FastifyReply
+) {
+  const prefix = serialPrefix(req.params.serial);
+
+  const releases = await prisma.firmware_releases.findMany({
+    where: { serial_prefix: prefix },
+    orderBy: { first_seen: "desc" },
+  });
+
+  return res
+    .status(200)
+    .send({ success: true, data: { serial_prefix: prefix, releases } });
+}
+
+export async function getFirmwareWatches(
+  req: FastifyRequest,
+  res: FastifyReply
+) {
+  const watches = await prisma.firmware_watches.findMany({
+    where: { user: req.user.id },
+  });
+
+  return res.status(200).send({ success: true, data: { watches } });
+}
+
+export async function createFirmwareWatch(
+  req: FastifyRequest<{ Body: { serial: string; nickname?: string } }>,
+  res: FastifyReply
+) {
+  try {
+    const { serial, nickname } = await firmwareWatchValidation.parseAsync(
+      req.body
+    );
+
+    const existing = await prisma.firmware_watches.findFirst({
+      where: { serial, user: req.user.id },
+    });
+
+    const ota = await getOtaLatest(serial);
+    if (!ota)
+      return res
+        .status(404)
+        .send({ success: false, error: { code: "firmware_not_found" } });
+
+    const watch = existing
+      ? await prisma.firmware_watches.update({
+          where: { id: existing.id },
+          data: { nickname },
+        })
+      : await prisma.firmware_watches.create({
+          data: {
+            id: pika.gen("firmware_watch"),
+            serial,
+            nickname,
+            user: req.user.id,
+          },
+        });
+
+    return res.status(200).send({
+      success: true,
+      data: { watch, firmware: { version: ota.version } },
+    });
+  } catch (error) {
+    if (error instanceof ZodError)
+      return res.status(400).send({
+        success: false,
+        error: { code: "validation_error", issues: error.issues },
+      });
+
+    console.error("error with firmware watch", error);
+    return res
+      .status(500)
+      .send({ success: false, error: { code: "internal_error" } });
+  }
+}
+
+export async function updateFirmwareWatch(
+  req: FastifyRequest<{
+    Params: { id: string };
+    Body: { nickname: string | null };
+  }>,
+  res: FastifyReply
+) {
+  try {
+    const { nickname } = await firmwareWatchUpdateValidation.parseAsync(
+      req.body
+    );
+
+    const existing = await prisma.firmware_watches.findFirst({
+      where: { id: req.params.id, user: req.user.id },
+    });
+    if (!existing)
+      return res
+        .status(404)
+        .send({ success: false, error: { code: "watch_not_found" } });
+
+    const watch = await prisma.firmware_watches.update({
+      where: { id: existing.id },
+      data: { nickname },
+    });
+
+    return res.status(200).send({ success: true, data: { watch } });
+  } catch (error) {
+    if (error instanceof ZodError)
+      return res.status(400).send({
+        success: false,
+        error: { code: "validation_error", issues: error.issues },
+      });
+
+    console.error("error with firmware watch update", error);
+    return res
+      .status(500)
+      .send({ success: false, error: { code: "internal_error" } });
+  }
+}
+
+export async function deleteFirmwareWatch(
+  req: FastifyRequest<{ Params: { id: string } }>,
+  res: FastifyReply
+) {
+  const { count } = await prisma.firmware_watches.deleteMany({
+    where: { id: req.params.id, user: req.user.id },
+  });
+  if (!count)
+    return res
+      .status(404)
+      .send({ success: false, error: { code: "watch_not_found" } });
+
+  return res.status(204).send();
+}
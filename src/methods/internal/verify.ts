@@ -5,15 +5,13 @@ import { FastifyReply, FastifyRequest } from "fastify";
 
 import { prisma } from "../../connectivity/prisma";
 import { env } from "../../env";
+import { loadSession } from "../../helpers/sessions";
 
 export async function verifyToken(req: FastifyRequest, res: FastifyReply) {
   const authorization = req.headers.authorization;
   if (!authorization) return res.status(200).send({ valid: false });
 
-  const session = (await keydb.hgetall(`sessions/${authorization}`)) as {
-    user_id: string;
-    connection_id: string;
-  };
+  const session = await loadSession(authorization);
   if (!session) return res.status(200).send({ valid: false });
 
   const user = await prisma.users.findFirst({
@@ -1,52 +1,158 @@
 import { FastifyReply, FastifyRequest } from "fastify";
+import { Prisma } from "@prisma/client";
+import { ZodError } from "zod";
 
 import {
   MinimumFirmwareMap,
   lettersToNumber,
 } from "@puff-social/commons/dist/puffco";
 
+import { env } from "../env";
+import { PrivateDeviceFields } from "../constants";
 import { prisma } from "../connectivity/prisma";
-import { sanitize } from "../utils";
+import { leaderboardValidation, sanitize } from "../utils";
+import { publicDevice } from "../helpers/privacy";
+
+// Columns behind each board, positions are all worked out ahead of time by
+// buildLeaderboard so requests only ever read them.
+const Boards = {
+  all: { position: "position", previous: "previous_position" },
+  avg: { position: "avg_position", previous: "previous_avg_position" },
+  week: { position: "week_position", previous: "previous_week_position" },
+  month: { position: "month_position", previous: "previous_month_position" },
+} as const;
+
+// Positive when the device climbed, null if it wasn't ranked last period.
+function rankChange(position: number | null, previous: number | null) {
+  if (position == null || previous == null) return null;
+  return previous - position;
+}
 
 export async function getDeviceLeaderboard(
-  req: FastifyRequest<{ Querystring: { limit?: string; avg?: boolean } }>,
+  req: FastifyRequest<{ Querystring: Record<string, string> }>,
   res: FastifyReply
 ) {
-  const leaderboards = await prisma.device_leaderboard.findMany({
-    orderBy: req.query.avg ? { avg_position: "asc" } : { position: "asc" },
-    take: Number(req.query.limit) || 25,
-    where: {
+  try {
+    const { avg, period, model, firmware_min, firmware_max, cursor, limit } =
+      await leaderboardValidation.parseAsync(req.query);
+    const board = Boards[avg ? "avg" : period];
+
+    // Everything except the cursor, so the rows before this page can be
+    // counted with the same conditions.
+    const filter: Prisma.device_leaderboardWhereInput = {
+      // Positions start at 1, this also leaves out anything unranked.
+      ...({
+        [board.position]: { gt: 0 },
+      } as Prisma.device_leaderboardWhereInput),
       devices: {
         isNot: { user_id: null },
       },
-      AND: {
-        devices: req.query.avg
-          ? {
-              firmware_raw: {
-                gte: lettersToNumber(MinimumFirmwareMap.XL_CHAMBER),
-              },
-            }
-          : undefined,
+      AND: [
+        {
+          devices: avg
+            ? {
+                firmware_raw: {
+                  gte: lettersToNumber(MinimumFirmwareMap.XL_CHAMBER),
+                },
+              }
+            : undefined,
+        },
+        {
+          devices: {
+            model,
+            firmware_raw: {
+              gte: firmware_min ? lettersToNumber(firmware_min) : undefined,
+              lte: firmware_max ? lettersToNumber(firmware_max) : undefined,
+            },
+          },
+        },
+        {
+          // Users that signed up with an email need to have verified it,
+          // users from an OAuth platform have no accounts row so always pass.
+          devices: env.RESTRICT_UNVERIFIED_ACCOUNTS
+            ? {
+                users: {
+                  OR: [
+                    { accounts: { none: { verified: false } } },
+                    { connections: { some: { verified: true } } },
+                  ],
+                },
+              }
+            : undefined,
+        },
+        { devices: { users: { hide_leaderboard: false } } },
+      ],
+    };
+
+    const entries = await prisma.device_leaderboard.findMany({
+      orderBy: {
+        [board.position]: "asc",
+      } as Prisma.device_leaderboardOrderByWithRelationInput,
+      take: limit + 1,
+      where: {
+        AND: [
+          filter,
+          {
+            [board.position]: { gt: cursor ?? 0 },
+          } as Prisma.device_leaderboardWhereInput,
+        ],
       },
-    },
-    include: {
-      devices: {
-        include: {
-          users: true,
+      include: {
+        devices: {
+          include: {
+            users: true,
+          },
         },
       },
-    },
-  });
-
-  for (const lb of leaderboards) {
-    sanitize(lb.devices, [
-      "mac",
-      "git_hash",
-      "profiles",
-      "last_ip",
-      "serial_number",
-    ]);
-  }
+    });
+
+    // position is always the global rank, with a model or firmware filter the
+    // rank within what's being listed has to be counted from the top.
+    const filtered = Boolean(model || firmware_min || firmware_max);
+    const before =
+      filtered && cursor
+        ? await prisma.device_leaderboard.count({
+            where: {
+              AND: [
+                filter,
+                {
+                  [board.position]: { lte: cursor },
+                } as Prisma.device_leaderboardWhereInput,
+              ],
+            },
+          })
+        : 0;
+
+    const leaderboards = entries.slice(0, limit).map((entry, index) => ({
+      ...entry,
+      rank: filtered ? before + index + 1 : entry[board.position],
+      rank_change: rankChange(entry[board.position], entry[board.previous]),
+    }));
 
-  return res.status(200).send({ success: true, data: { leaderboards } });
+    for (const lb of leaderboards) {
+      sanitize(publicDevice(lb.devices), PrivateDeviceFields);
+    }
+
+    // One extra row is pulled so we know if there is another page after this.
+    const next =
+      entries.length > limit
+        ? leaderboards[leaderboards.length - 1][board.position]
+        : null;
+
+    return res.status(200).send({
+      success: true,
+      data: { period, leaderboards, cursor: next },
+    });
+  } catch (error) {
+    if (error instanceof ZodError)
+      return res.status(400).send({
+        success: false,
+        error: { code: "validation_error", issues: error.issues },
+      });
+
+    console.error("error with get leaderboard", error);
+    return res
+      .status(500)
+      .send({ success: false, error: { code: "internal_error" } });
+  }
 }
@@ -0,0 +1,107 @@
+import { FastifyReply, FastifyRequest } from "fastify";
+import { PutObjectCommand } from "@aws-sdk/client-s3";
+
+import { env } from "../env";
+import { minio } from "../connectivity/minio";
+import { prisma } from "../connectivity/prisma";
+import {
+  deleteObjects,
+  markImageCustomized,
+  notifyUserUpdate,
+} from "../helpers/users";
+import {
+  AllowedImageTypes,
+  ImageKind,
+  ImageKinds,
+  processImage,
+} from "../helpers/images";
+
+async function uploadUserImage(
+  req: FastifyRequest,
+  res: FastifyReply,
+  kind: ImageKind
+) {
+  const { prefix, field, maxBytes } = ImageKinds[kind];
+
+  try {
+    const file = await req.file({ limits: { fileSize: maxBytes, files: 1 } });
+    if (!file)
+      return res
+        .status(400)
+        .send({ success: false, error: { code: "missing_file" } });
+
+    if (!AllowedImageTypes.includes(file.mimetype))
+      return res
+        .status(400)
+        .send({ success: false, error: { code: "invalid_image_type" } });
+
+    const image = await processImage(req.user.id, kind, await file.toBuffer());
+
+    for (const variant of image.variants)
+      await minio.send(
+        new PutObjectCommand({
+          Bucket: env.MINIO_BUCKET,
+          Key: variant.key,
+          Body: variant.data,
+          ContentType: variant.contentType,
+        })
+      );
+
+    const user = await prisma.users.update({
+      where: { id: req.user.id },
+      data: { [field]: image.hash },
+    });
+
+    await deleteObjects(`${prefix}/${user.id}/`, (key) =>
+      key.startsWith(`${prefix}/${user.id}/${image.hash}`)
+    ).catch(console.error);
+    if (kind == "avatar") await markImageCustomized(user.id);
+
+    notifyUserUpdate(user);
+
+    return res.status(200).send({ success: true, data: { user } });
+  } catch (error) {
+    if (error?.code == "FST_REQ_FILE_TOO_LARGE")
+      return res
+        .status(413)
+        .send({ success: false, error: { code: "image_too_large" } });
+    if (error?.code && error?.status)
+      return res
+        .status(error.status)
+        .send({ success: false, error: { code: error.code } });
+
+    console.error(`error with ${kind} upload`, error);
+    return res
+      .status(500)
+      .send({ success: false, error: { code: "internal_error" } });
+  }
+}
+
+async function removeUserImage(
+  req: FastifyRequest,
+  res: FastifyReply,
+  kind: ImageKind
+) {
+  const { prefix, field } = ImageKinds[kind];
+
+  const user = await prisma.users.update({
+    where: { id: req.user.id },
+    data: { [field]: null },
+  });
+
+  await deleteObjects(`${prefix}/${user.id}/`).catch(console.error);
+  if (kind == "avatar") await markImageCustomized(user.id);
+
+  notifyUserUpdate(user);
+
+  return res.status(200).send({ success: true, data: { user } });
+}
+
+export const uploadAvatar = (req: FastifyRequest, res: FastifyReply) =>
+  uploadUserImage(req, res, "avatar");
+export const uploadBanner = (req: FastifyRequest, res: FastifyReply) =>
+  uploadUserImage(req, res, "banner");
+export const removeAvatar = (req: FastifyRequest, res: FastifyReply) =>
+  removeUserImage(req, res, "avatar");
+export const removeBanner = (req: FastifyRequest, res: FastifyReply) =>
+  removeUserImage(req, res, "banner");
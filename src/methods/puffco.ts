@@ -0,0 +1,95 @@
+import { FastifyReply, FastifyRequest } from "fastify";
+
+import { prisma } from "../connectivity/prisma";
+import {
+  getAccessToken,
+  heatProfiles,
+  moodLights,
+  normalizeHeatProfile,
+} from "../helpers/puffco";
+
+async function hasPuffcoConnection(user: string) {
+  const connection = await prisma.connections.findFirst({
+    where: { user_id: user, platform: "puffco" },
+  });
+
+  return !!connection;
+}
+
+function puffcoError(res: FastifyReply, error: any, context: string) {
+  if (error?.code == "puffco_token_expired")
+    return res
+      .status(401)
+      .send({ success: false, error: { code: "puffco_token_expired" } });
+
+  if (error?.status == 401 || error?.status == 403)
+    return res
+      .status(401)
+      .send({ success: false, error: { code: "puffco_token_invalid" } });
+
+  console.error(`error with ${context}`, error);
+  return res
+    .status(502)
+    .send({ success: false, error: { code: "puffco_request_failed" } });
+}
+
+export async function getPuffcoProfiles(
+  req: FastifyRequest,
+  res: FastifyReply
+) {
+  if (!(await hasPuffcoConnection(req.user.id)))
+    return res
+      .status(400)
+      .send({ success: false, error: { code: "puffco_not_connected" } });
+
+  try {
+    const token = await getAccessToken(req.user.id);
+    const profiles = await heatProfiles(token);
+
+    return res.status(200).send({
+      success: true,
+      data: {
+        profiles: profiles
+          .map(normalizeHeatProfile)
+          .sort((a, b) => a.order - b.order),
+      },
+    });
+  } catch (error) {
+    return puffcoError(res, error, "puffco profiles");
+  }
+}
+
+export async function getPuffcoMoodLights(
+  req: FastifyRequest,
+  res: FastifyReply
+) {
+  if (!(await hasPuffcoConnection(req.user.id)))
+    return res
+      .status(400)
+      .send({ success: false, error: { code: "puffco_not_connected" } });
+
+  try {
+    const token = await getAccessToken(req.user.id);
+    const [lights, profiles] = await Promise.all([
+      moodLights(token),
+      heatProfiles(token),
+    ]);
+
+    return res.status(200).send({
+      success: true,
+      data: {
+        moodlights: lights.map((light) => ({
+          ...light,
+          profiles: profiles
+            .filter(
+              (profile) =>
+                profile.isMoodLight && profile.moodLightId == light.id
+            )
+            .map((profile) => profile.id),
+        })),
+      },
+    });
+  } catch (error) {
+    return puffcoError(res, error, "puffco moodlights");
+  }
+}
@@ -0,0 +1,87 @@
+import { FastifyReply, FastifyRequest } from "fastify";
+import { ZodError } from "zod";
+
+import { prisma } from "../connectivity/prisma";
+import {
+  revokeSessions,
+  revokeUserSessions,
+  sessionId,
+} from "../helpers/sessions";
+import { sessionRevokeValidation } from "../utils";
+
+export async function getSessions(req: FastifyRequest, res: FastifyReply) {
+  const sessions = await prisma.sessions.findMany({
+    where: { user_id: req.user.id },
+    include: { connections: { select: { platform: true } } },
+  });
+
+  return res.status(200).send({
+    success: true,
+    data: {
+      sessions: sessions.map((session) => ({
+        id: sessionId(session.token),
+        ip: session.ip,
+        user_agent: session.user_agent,
+        platform: session.connections?.platform ?? "account",
+        current: session.token == req.headers.authorization,
+      })),
+    },
+  });
+}
+
+export async function deleteSession(
+  req: FastifyRequest<{ Params: { id: string } }>,
+  res: FastifyReply
+) {
+  const sessions = await prisma.sessions.findMany({
+    where: { user_id: req.user.id },
+    select: { token: true },
+  });
+
+  const session = sessions.find(
+    (session) => sessionId(session.token) == req.params.id
+  );
+  if (!session)
+    return res
+      .status(404)
+      .send({ success: false, error: { code: "session_not_found" } });
+
+  await revokeSessions([session.token]);
+
+  return res.status(204).send();
+}
+
+export async function deleteAllSessions(
+  req: FastifyRequest<{ Querystring: Record<string, string> }>,
+  res: FastifyReply
+) {
+  try {
+    const { keep_current } = await sessionRevokeValidation.parseAsync(
+      req.query
+    );
+
+    const count = await revokeUserSessions(
+      req.user.id,
+      keep_current ? req.headers.authorization : undefined
+    );
+
+    return res.status(200).send({ success: true, data: { revoked: count } });
+  } catch (error) {
+    if (error instanceof ZodError)
+      return res.status(400).send({
+        success: false,
+        error: { code: "validation_error", issues: error.issues },
+      });
+
+    console.error("error with revoking sessions", error);
+    return res
+      .status(500)
+      .send({ success: false, error: { code: "internal_error" } });
+  }
+}
+
+export async function logout(req: FastifyRequest, res: FastifyReply) {
+  await revokeSessions([req.headers.authorization as string]);
+
+  return res.status(204).send();
+}
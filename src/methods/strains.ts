@@ -0,0 +1,165 @@
+import { pika } from "@puff-social/commons";
+
+import { FastifyReply, FastifyRequest } from "fastify";
+import { ZodError } from "zod";
+
+import { prisma } from "../connectivity/prisma";
+import {
+  normalizeUsername,
+  strainSearchValidation,
+  strainUpdateValidation,
+  strainValidation,
+} from "../utils";
+
+// Search runs against the generated tsvector on name and slug, every word is
+// matched as a prefix so partial input works for autocomplete.
+async function searchStrains(q: string) {
+  const terms = q.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  if (!terms) return [];
+
+  const matches = await prisma.$queryRaw<{ id: string }[]>`
+    SELECT id FROM strains
+    WHERE search @@ to_tsquery('simple', ${terms
+      .map((term) => `${term}:*`)
+      .join(" & ")})`;
+
+  return matches.map((match) => match.id);
+}
+
+export async function getStrains(
+  req: FastifyRequest<{ Querystring: Record<string, string> }>,
+  res: FastifyReply
+) {
+  try {
+    const { q, species, platform, cursor, limit } =
+      await strainSearchValidation.parseAsync(req.query);
+
+    const matches = q ? await searchStrains(q) : undefined;
+
+    // Strains without a slug can't be looked up on their own so they aren't
+    // listed either, which also keeps the ordering stable for the cursor.
+    const strains = await prisma.strains.findMany({
+      where: {
+        slug: { not: null },
+        species: species ? { equals: species, mode: "insensitive" } : undefined,
+        platform: platform
+          ? { equals: platform, mode: "insensitive" }
+          : undefined,
+        id: matches ? { in: matches } : undefined,
+      },
+      orderBy: [{ slug: "asc" }, { id: "asc" }],
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+
+    // One extra row is pulled so we know if there is another page after this.
+    const next = strains.length > limit ? strains[limit - 1].id : null;
+
+    return res.status(200).send({
+      success: true,
+      data: { strains: strains.slice(0, limit), cursor: next },
+    });
+  } catch (error) {
+    if (error instanceof ZodError)
+      return res.status(400).send({
+        success: false,
+        error: { code: "validation_error", issues: error.issues },
+      });
+
+    console.error("error with strain search", error);
+    return res
+      .status(500)
+      .send({ success: false, error: { code: "internal_error" } });
+  }
+}
+
+export async function getStrain(
+  req: FastifyRequest<{ Params: { slug: string } }>,
+  res: FastifyReply
+) {
+  const strain = await prisma.strains.findFirst({
+    where: { slug: req.params.slug.toLowerCase() },
+  });
+
+  if (!strain)
+    return res
+      .status(404)
+      .send({ success: false, error: { code: "strain_not_found" } });
+
+  return res.status(200).send({ success: true, data: { strain } });
+}
+
+export async function createStrain(req: FastifyRequest, res: FastifyReply) {
+  try {
+    const validate = await strainValidation.parseAsync(req.body);
+    const slug = validate.slug ?? normalizeUsername(validate.name);
+
+    const existing = await prisma.strains.findFirst({ where: { slug } });
+    if (existing)
+      return res
+        .status(409)
+        .send({ success: false, error: { code: "strain_slug_taken" } });
+
+    const strain = await prisma.strains.create({
+      data: { ...validate, id: pika.gen("strain"), slug },
+    });
+
+    return res.status(200).send({ success: true, data: { strain } });
+  } catch (error) {
+    if (error instanceof ZodError)
+      return res.status(400).send({
+        success: false,
+        error: { code: "validation_error", issues: error.issues },
+      });
+
+    console.error("error with strain creation", error);
+    return res
+      .status(500)
+      .send({ success: false, error: { code: "internal_error" } });
+  }
+}
+
+export async function updateStrain(
+  req: FastifyRequest<{ Params: { id: string } }>,
+  res: FastifyReply
+) {
+  try {
+    const validate = await strainUpdateValidation.parseAsync(req.body);
+
+    const strain = await prisma.strains.findFirst({
+      where: { id: req.params.id },
+    });
+    if (!strain)
+      return res
+        .status(404)
+        .send({ success: false, error: { code: "strain_not_found" } });
+
+    if (validate.slug && validate.slug != strain.slug) {
+      const existing = await prisma.strains.findFirst({
+        where: { slug: validate.slug },
+      });
+      if (existing)
+        return res
+          .status(409)
+          .send({ success: false, error: { code: "strain_slug_taken" } });
+    }
+
+    const updated = await prisma.strains.update({
+      where: { id: strain.id },
+      data: validate,
+    });
+
+    return res.status(200).send({ success: true, data: { strain: updated } });
+  } catch (error) {
+    if (error instanceof ZodError)
+      return res.status(400).send({
+        success: false,
+        error: { code: "validation_error", issues: error.issues },
+      });
+
+    console.error("error with strain update", error);
+    return res
+      .status(500)
+      .send({ success: false, error: { code: "internal_error" } });
+  }
+}
@@ -1,19 +1,42 @@
-import { users } from "@puff-social/commons";
+import { UserFlags } from "@puff-social/commons";
+import { users } from "@prisma/client";
 
 import { FastifyReply, FastifyRequest } from "fastify";
+import { verify } from "argon2";
 
 import { env } from "../env";
 import { prisma } from "../connectivity/prisma";
-import { userUpdateValidation } from "../utils";
+import { PrivateDeviceFields } from "../constants";
+import { deleteUser, notifyUserUpdate } from "../helpers/users";
+import { queueLeaderboardUpdate } from "../helpers/leaderboard";
+import {
+  publicDevice,
+  publicUser,
+  showsOnLeaderboard,
+} from "../helpers/privacy";
+import {
+  sanitize,
+  userDeletionValidation,
+  userUpdateValidation,
+} from "../utils";
+
+// Users without a password have to have logged in this recently to delete themselves.
+const ReauthenticationWindow = 600_000;
 
 export async function getUsersRoute(
   req: FastifyRequest<{ Querystring: { limit?: string; all: boolean } }>,
   res: FastifyReply
 ) {
   const currentDate = new Date();
+  // Admins get to see everyone, the internal API is what feeds public listings.
+  const enforcePrivacy = !((req.user?.flags || 0) & UserFlags.admin);
+
   let users = await prisma.users.findMany({
     where: {
       NOT: { devices: { none: {} } },
+      ...(enforcePrivacy
+        ? { hide_leaderboard: false, hide_profile: false }
+        : {}),
       devices: req.query.all
         ? undefined
         : {
@@ -30,7 +53,9 @@ export async function getUsersRoute(
     },
     include: {
       devices: true,
-      accounts: true,
+      accounts: {
+        select: { id: true, email: true, user_id: true, verified: true },
+      },
       connections: true,
     },
   });
@@ -66,12 +91,29 @@ export async function getUsersRoute(
 
   if (req.query.limit) users = users.slice(0, Number(req.query.limit));
 
+  if (enforcePrivacy)
+    for (const user of users) {
+      publicUser(user);
+      for (const device of user.devices) publicDevice(device, user);
+    }
+
   return res.status(200).send({ success: true, data: { users } });
 }
 
 export async function updateUser(
   req: FastifyRequest<{
-    Body: Pick<users, "display_name" | "image" | "banner" | "bio" | "location">;
+    Body: Pick<
+      users,
+      | "display_name"
+      | "image"
+      | "banner"
+      | "bio"
+      | "location"
+      | "hide_leaderboard"
+      | "anonymize_devices"
+      | "hide_profile"
+      | "hide_location"
+    >;
   }>,
   res: FastifyReply
 ) {
@@ -82,11 +124,14 @@ export async function updateUser(
     data: validate,
   });
 
-  fetch(`${env.GATEWAY_HOST}/user/${req.user.id}/update`, {
-    method: "POST",
-    headers: { "content-type": "application/json" },
-    body: JSON.stringify({ user }),
-  }).catch(console.error);
+  notifyUserUpdate(user);
+  if (validate.hide_leaderboard != undefined) {
+    const devices = await prisma.devices.findMany({
+      where: { user_id: user.id },
+      select: { id: true },
+    });
+    queueLeaderboardUpdate(...devices.map((device) => device.id));
+  }
 
   return res.status(200).send({
     success: true,
@@ -95,3 +140,125 @@ export async function updateUser(
     },
   });
 }
+
+export async function deleteUserRoute(req: FastifyRequest, res: FastifyReply) {
+  const { password } = await userDeletionValidation.parseAsync(req.body ?? {});
+
+  const account = await prisma.accounts.findFirst({
+    where: { user_id: req.user.id },
+  });
+
+  if (account) {
+    if (!password || !(await verify(account.password, password)))
+      return res
+        .status(403)
+        .send({ success: false, error: { code: "invalid_password" } });
+  } else if (Date.now() - Number(req.session.created) > ReauthenticationWindow)
+    return res
+      .status(403)
+      .send({ success: false, error: { code: "reauthentication_required" } });
+
+  if (env.ACCOUNT_DELETION_GRACE == 0) {
+    await deleteUser(req.user.id);
+    return res.status(204).send();
+  }
+
+  const user = await prisma.users.update({
+    where: { id: req.user.id },
+    data: {
+      delete_after: new Date(Date.now() + env.ACCOUNT_DELETION_GRACE * 1000),
+    },
+  });
+
+  return res.status(200).send({
+    success: true,
+    data: { delete_after: user.delete_after },
+  });
+}
+
+export async function restoreUserRoute(req: FastifyRequest, res: FastifyReply) {
+  const { count } = await prisma.users.updateMany({
+    where: { id: req.user.id, NOT: { delete_after: null } },
+    data: { delete_after: null },
+  });
+  if (!count)
+    return res
+      .status(400)
+      .send({ success: false, error: { code: "deletion_not_scheduled" } });
+
+  return res.status(204).send();
+}
+
+export async function getPublicUser(
+  req: FastifyRequest<{ Params: { name: string } }>,
+  res: FastifyReply
+) {
+  const user = await prisma.users.findFirst({
+    where: {
+      name: { equals: req.params.name, mode: "insensitive" },
+      delete_after: null,
+      hide_profile: false,
+    },
+    include: {
+      connections: { select: { platform: true, verified: true } },
+      devices: { include: { device_leaderboard: true } },
+    },
+  });
+
+  if (!user)
+    return res
+      .status(404)
+      .send({ success: false, error: { code: "user_not_found" } });
+
+  publicUser(user);
+  const ranked = await showsOnLeaderboard(user);
+
+  const devices = user.devices.map(({ device_leaderboard, ...device }) => ({
+    ...sanitize(publicDevice(device, user), PrivateDeviceFields),
+    ...(ranked
+      ? {
+          position: device_leaderboard?.position,
+          avg_position: device_leaderboard?.avg_position,
+        }
+      : {}),
+  }));
+
+  // Each device's average is weighted by how much it's been used, adding them
+  // up wouldn't mean anything.
+  const dabs = devices.reduce((total, device) => total + device.dabs, 0);
+  const avgDabs = dabs
+    ? devices.reduce(
+        (total, device) => total + device.avg_dabs * device.dabs,
+        0
+      ) / dabs
+    : 0;
+
+  return res.status(200).send({
+    success: true,
+    data: {
+      user: {
+        id: user.id,
+        name: user.name,
+        display_name: user.display_name,
+        bio: user.bio,
+        location: user.location,
+        image: user.image,
+        banner: user.banner,
+      },
+      connections: user.connections,
+      devices,
+      stats: {
+        devices: devices.length,
+        dabs,
+        avg_dabs: avgDabs,
+        last_dab: devices.reduce<Date | null>(
+          (last, device) =>
+            device.last_dab && (!last || device.last_dab > last)
+              ? device.last_dab
+              : last,
+          null
+        ),
+      },
+    },
+  });
+}
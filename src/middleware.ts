@@ -2,14 +2,15 @@ import fp from "fastify-plugin";
 import { FastifyPluginAsync } from "fastify/types/plugin";
 
 import { connections, users, UserFlags } from "@puff-social/commons";
-import { keydb } from "@puff-social/commons/dist/connectivity/keydb";
 
 import { prisma } from "./connectivity/prisma";
+import { loadSession, Session } from "./helpers/sessions";
 
 declare module "fastify" {
   interface FastifyRequest {
     user: users;
     linkedConnection: connections;
+    session: Session;
   }
 }
 
@@ -30,16 +31,15 @@ const middlewareCallback: FastifyPluginAsync<AuthOptions> = async function (
         .status(403)
         .send({ error: true, code: "missing_authorization" });
 
-    const session = (await keydb.hgetall(`sessions/${authorization}`)) as {
-      user_id: string;
-      connection_id: string;
-    };
-    if ((!session || Object.keys(session).length == 0) && options.required)
+    const session = await loadSession(authorization);
+    if (!session && options.required)
       return res
         .status(403)
         .send({ error: true, code: "invalid_authentication" });
 
-    if (session.user_id) {
+    if (session?.user_id) {
+      req.session = session;
+
       const user = await prisma.users.findFirst({
         where: { id: session.user_id },
       });
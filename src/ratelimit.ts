@@ -0,0 +1,110 @@
+import fp from "fastify-plugin";
+import {
+  FastifyReply,
+  FastifyRequest,
+  preHandlerAsyncHookHandler,
+} from "fastify";
+import { FastifyPluginAsync } from "fastify/types/plugin";
+
+import { keydb } from "@puff-social/commons/dist/connectivity/keydb";
+
+import { requestIp } from "./utils";
+
+export interface RateLimitRule {
+  name: string;
+  max: number;
+  // Window length in seconds
+  window: number;
+  // What to count requests against, defaults to the request IP. Returning
+  // nothing skips the rule for that request.
+  key?: (req: FastifyRequest) => string | undefined;
+}
+
+declare module "fastify" {
+  interface FastifyContextConfig {
+    rateLimit?: RateLimitRule[];
+  }
+}
+
+// Failed logins past this count lock the account out for the lockout window.
+const MaxFailures = 10;
+const LockoutWindow = 900;
+
+function limited(res: FastifyReply, code: string, retryAfter: number) {
+  return res
+    .status(429)
+    .header("retry-after", retryAfter)
+    .send({ success: false, error: { code, retry_after: retryAfter } });
+}
+
+// The key is created with its expiry before counting, so a counter can never be
+// left behind without one.
+async function increment(key: string, window: number) {
+  await keydb.set(key, 0, "EX", window, "NX");
+  return keydb.incr(key);
+}
+
+function limiter(route: string, rules: RateLimitRule[]) {
+  const handler: preHandlerAsyncHookHandler = async (req, res) => {
+    for (const rule of rules) {
+      const identifier = rule.key ? rule.key(req) : requestIp(req);
+      if (!identifier) continue;
+
+      const key = `ratelimit/${route}/${rule.name}/${identifier}`;
+      const count = await increment(key, rule.window);
+
+      res.header("x-ratelimit-limit", rule.max);
+      res.header("x-ratelimit-remaining", Math.max(0, rule.max - count));
+
+      if (count > rule.max) {
+        const ttl = await keydb.ttl(key);
+        return limited(res, "rate_limited", ttl > 0 ? ttl : rule.window);
+      }
+    }
+  };
+
+  return handler;
+}
+
+const rateLimitCallback: FastifyPluginAsync = async function (server) {
+  server.addHook("onRoute", (route) => {
+    const rules = route.config?.rateLimit;
+    if (!rules) return;
+
+    const methods = Array.isArray(route.method)
+      ? route.method.join(",")
+      : route.method;
+    const handler = limiter(`${methods}${route.url}`, rules);
+
+    route.preHandler = route.preHandler
+      ? [...[route.preHandler].flat(), handler]
+      : handler;
+  });
+};
+
+export const RateLimit = fp(rateLimitCallback);
+
+export function rateLimit(...rules: RateLimitRule[]) {
+  return { config: { rateLimit: rules } };
+}
+
+export const byEmail = (req: FastifyRequest) =>
+  (req.body as { email?: string } | undefined)?.email?.toLowerCase();
+
+export async function checkLockout(res: FastifyReply, key: string) {
+  const ttl = await keydb.ttl(`lockout/${key}`);
+  if (ttl > 0) return limited(res, "account_locked", ttl);
+}
+
+export async function recordFailure(key: string) {
+  const failures = await increment(`lockout/${key}/failures`, LockoutWindow);
+
+  if (failures >= MaxFailures) {
+    await keydb.set(`lockout/${key}`, "1", "EX", LockoutWindow);
+    await keydb.del(`lockout/${key}/failures`);
+  }
+}
+
+export async function clearFailures(key: string) {
+  await keydb.del(`lockout/${key}/failures`);
+}
@@ -1,17 +1,76 @@
 import { FastifyInstance, FastifyPluginOptions } from "fastify";
 
 import { AuthMiddleware } from "./middleware";
-import { getUsersRoute, updateUser } from "./methods/users";
-import { getDeviceByMac, getDevicesRoute } from "./methods/devices";
-import { getOtaFirmware } from "./methods/firmware";
+import { byEmail, rateLimit } from "./ratelimit";
+import {
+  deleteUserRoute,
+  getPublicUser,
+  getUsersRoute,
+  restoreUserRoute,
+  updateUser,
+} from "./methods/users";
+import {
+  getDeviceByMac,
+  getDeviceHistory,
+  getDevicesRoute,
+} from "./methods/devices";
+import {
+  createFirmwareWatch,
+  deleteFirmwareWatch,
+  getFirmwareHistory,
+  getFirmwareWatches,
+  getOtaFirmware,
+  updateFirmwareWatch,
+} from "./methods/firmware";
 import { callbackOAuth, getOAuthURL } from "./methods/oauth";
 import { puffcoLogin } from "./methods/auth/puffco";
-import { createAccount, loginAccount } from "./methods/auth/proprietary";
+import {
+  getConnections,
+  linkOAuth,
+  linkPuffco,
+  resyncConnectionRoute,
+  unlinkConnection,
+} from "./methods/connections";
+import {
+  activateTwoFactor,
+  disableTwoFactor,
+  enrollTwoFactor,
+  loginTwoFactor,
+  regenerateRecoveryCodes,
+} from "./methods/auth/twofactor";
+import { getPuffcoMoodLights, getPuffcoProfiles } from "./methods/puffco";
+import {
+  confirmPasswordReset,
+  createAccount,
+  loginAccount,
+  requestPasswordReset,
+  resendVerificationEmail,
+  verifyEmail,
+} from "./methods/auth/proprietary";
 import { userFeedback } from "./methods/feedback";
-import { trackDevice, trackDiags } from "./methods/analytics";
+import { trackDevice, trackDeviceLogs, trackDiags } from "./methods/analytics";
 import { getDeviceLeaderboard } from "./methods/leaderboard";
 import { verifyToken } from "./methods/internal/verify";
 import { remoteActionTrigger } from "./methods/remote";
+import { getExport, requestExport } from "./methods/exports";
+import {
+  removeAvatar,
+  removeBanner,
+  uploadAvatar,
+  uploadBanner,
+} from "./methods/media";
+import {
+  deleteAllSessions,
+  deleteSession,
+  getSessions,
+  logout,
+} from "./methods/sessions";
+import {
+  createStrain,
+  getStrain,
+  getStrains,
+  updateStrain,
+} from "./methods/strains";
 import { generateDebuggingSession, submitDebuggingSession } from "./methods/debugging";
 
 export function InternalRoutes(
@@ -36,6 +95,9 @@ export function AdministrativeRoutes(
 
   server.get("/users", getUsersRoute);
 
+  server.post("/strains", createStrain);
+  server.patch("/strains/:id", updateStrain);
+
   next();
 }
 
@@ -57,34 +119,41 @@ export function AuthedRoutes(
   });
 
   server.patch("/user", updateUser);
+  server.delete("/user", deleteUserRoute);
+  server.post("/user/restore", restoreUserRoute);
+  server.put("/user/avatar", uploadAvatar);
+  server.delete("/user/avatar", removeAvatar);
+  server.put("/user/banner", uploadBanner);
+  server.delete("/user/banner", removeBanner);
+  server.post("/user/export", requestExport);
+  server.get("/user/export/:id", getExport);
+
+  server.get("/user/sessions", getSessions);
+  server.delete("/user/sessions", deleteAllSessions);
+  server.delete("/user/sessions/:id", deleteSession);
+  server.post("/auth/logout", logout);
+
+  server.get("/user/connections", getConnections);
+  server.post("/user/connections/puffco", linkPuffco);
+  server.post("/user/connections/:platform", linkOAuth);
+  server.delete("/user/connections/:id", unlinkConnection);
+  server.post("/user/connections/:id/resync", resyncConnectionRoute);
+  server.post("/auth/verify-email/resend", resendVerificationEmail);
+
+  server.post("/user/2fa", enrollTwoFactor);
+  server.post("/user/2fa/activate", activateTwoFactor);
+  server.post("/user/2fa/disable", disableTwoFactor);
+  server.post("/user/2fa/recovery-codes", regenerateRecoveryCodes);
 
   server.post("/remote", remoteActionTrigger);
 
-  server.get("/puffco/profiles", async (req, res) => {
-    // if (req.user.platform != "puffco")
-    //   return res
-    //     .status(400)
-    //     .send({ error: true, code: "invalid_user_platform" });
-
-    // get token for the user and regen if required
-
-    // get the users heat profiles
-
-    return res.status(200).send();
-  });
-
-  server.get("/puffco/moodlights", async (req, res) => {
-    // if (req.user.platform != "puffco")
-    //   return res
-    //     .status(400)
-    //     .send({ error: true, code: "invalid_user_platform" });
+  server.get("/fw/watches", getFirmwareWatches);
+  server.post("/fw/watches", createFirmwareWatch);
+  server.patch("/fw/watches/:id", updateFirmwareWatch);
+  server.delete("/fw/watches/:id", deleteFirmwareWatch);
 
-    // get token for the user and regen if required
-
-    // get the users moodlights
-
-    return res.status(200).send();
-  });
+  server.get("/puffco/profiles", getPuffcoProfiles);
+  server.get("/puffco/moodlights", getPuffcoMoodLights);
 
   next();
 }
@@ -96,25 +165,78 @@ export function Routes(
 ) {
   server.register(AuthMiddleware);
 
-  server.post("/debugging/generate", generateDebuggingSession);
+  server.post(
+    "/debugging/generate",
+    rateLimit({ name: "ip", max: 10, window: 3600 }),
+    generateDebuggingSession
+  );
   server.post("/debugging/:id", submitDebuggingSession);
 
   server.get("/leaderboard", getDeviceLeaderboard);
 
-  server.post("/feedback", userFeedback);
+  server.get("/users/:name", getPublicUser);
+
+  server.post(
+    "/feedback",
+    rateLimit({ name: "ip", max: 5, window: 600 }),
+    userFeedback
+  );
 
   server.post("/track", trackDevice);
+  server.post(
+    "/track/logs",
+    rateLimit({ name: "ip", max: 60, window: 60 }),
+    trackDeviceLogs
+  );
   server.post("/diag", trackDiags);
 
   server.get("/device/:device_mac", getDeviceByMac);
+  server.get("/device/:id/history", getDeviceHistory);
+  server.get("/strains", getStrains);
+  server.get("/strains/:slug", getStrain);
+
   server.get("/fw/peak/:serial", getOtaFirmware);
+  server.get("/fw/peak/:serial/history", getFirmwareHistory);
 
   server.get("/oauth/:platform", getOAuthURL);
   server.post("/oauth/:platform", callbackOAuth);
 
-  server.post("/auth/puffco", puffcoLogin);
-  server.post("/auth", loginAccount);
-  server.post("/auth/create", createAccount);
+  server.post(
+    "/auth/puffco",
+    rateLimit(
+      { name: "ip", max: 10, window: 300 },
+      { name: "email", max: 5, window: 300, key: byEmail }
+    ),
+    puffcoLogin
+  );
+  server.post(
+    "/auth",
+    rateLimit(
+      { name: "ip", max: 20, window: 300 },
+      { name: "email", max: 10, window: 300, key: byEmail }
+    ),
+    loginAccount
+  );
+  server.post(
+    "/auth/create",
+    rateLimit({ name: "ip", max: 5, window: 3600 }),
+    createAccount
+  );
+  server.post(
+    "/auth/2fa",
+    rateLimit({ name: "ip", max: 10, window: 300 }),
+    loginTwoFactor
+  );
+  server.post(
+    "/auth/reset",
+    rateLimit(
+      { name: "ip", max: 5, window: 3600 },
+      { name: "email", max: 3, window: 3600, key: byEmail }
+    ),
+    requestPasswordReset
+  );
+  server.post("/auth/reset/confirm", confirmPasswordReset);
+  server.post("/auth/verify-email", verifyEmail);
 
   return next();
 }
@@ -1,10 +1,18 @@
 import fastify from "fastify";
 import cors from "@fastify/cors";
+import multipart from "@fastify/multipart";
 
 import { env } from "./env";
+import { RateLimit } from "./ratelimit";
 import { AdministrativeRoutes, AuthedRoutes, Routes } from "./routes";
 
 import "./internal";
+import "./jobs/firmware";
+import "./jobs/sessions";
+import "./jobs/deletion";
+import "./jobs/resync";
+import "./jobs/leaderboard";
+import "./jobs/exports";
 
 const server = fastify();
 
@@ -18,6 +26,10 @@ server.register(cors, {
   origin: true,
 });
 
+server.register(multipart);
+
+server.register(RateLimit);
+
 server.register(Routes, { prefix: "/v1" });
 server.register(AdministrativeRoutes, { prefix: "/v1" });
 server.register(AuthedRoutes, { prefix: "/v1" });
@@ -0,0 +1,28 @@
+export interface OAuthTokens {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+}
+
+export interface OAuthProfile {
+  id: string;
+  username: string;
+  display_name: string;
+  avatar: string | null;
+}
+
+export interface OAuthAvatar {
+  hash: string;
+  data: Buffer;
+  contentType: string;
+  extension: string;
+}
+
+export interface OAuthProvider {
+  name: string;
+  authorizeUrl(state: string, redirect_uri: string): string;
+  exchangeCode(code: string, redirect_uri: string): Promise<OAuthTokens>;
+  refreshToken?(refresh_token: string): Promise<OAuthTokens>;
+  fetchProfile(tokens: OAuthTokens): Promise<OAuthProfile>;
+  fetchAvatar(profile: OAuthProfile): Promise<OAuthAvatar | null>;
+}
@@ -57,8 +57,32 @@ export interface HeatProfile {
   modified: string;
   version: string;
   isMoodLight: boolean;
-  moodLightId: null;
+  moodLightId: string | null;
   wasSyncedWithActive: boolean;
   userId: number;
   shareProfile: null;
 }
+
+export interface MoodLight {
+  id: string;
+  name: string;
+  type: string;
+  tempo: number;
+  colors: string[];
+  version: string;
+  userId: number;
+  created: string;
+  modified: string;
+}
+
+export interface NormalizedHeatProfile {
+  id: string;
+  name: string;
+  temperature: number;
+  duration: number;
+  color: string;
+  order: number;
+  units: string;
+  moodLightId: string | null;
+  modified: string;
+}
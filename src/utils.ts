@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { FastifyRequest } from "fastify";
 import { createDecipheriv, createHash } from "crypto";
 
 import { env } from "./env";
@@ -17,10 +18,32 @@ export const registerValidation = z.object({
     .min(3)
     .regex(/^(?![-.])(?!.*[-.]{2})[a-z0-9.-]+(?<![-.])$/gm),
   display_name: z.string().max(32).optional(),
-  email: z.string(),
+  email: z.string().email().max(254),
   password: z.string(),
 });
 
+export const emailVerificationValidation = z.object({
+  token: z.string(),
+});
+
+export const passwordResetValidation = z.object({
+  email: z.string(),
+});
+
+export const passwordResetConfirmValidation = z.object({
+  token: z.string(),
+  password: z.string().min(8).max(256),
+});
+
+export const twoFactorCodeValidation = z.object({
+  code: z.string().trim().min(6).max(16),
+});
+
+export const twoFactorLoginValidation = z.object({
+  challenge: z.string(),
+  code: z.string().trim().min(6).max(16),
+});
+
 export const feedbackValidation = z.object({
   message: z.string().max(1024),
 });
@@ -33,6 +56,21 @@ export const userUpdateValidation = z.object({
   display_name: z.string().max(48).optional(),
   bio: z.string().max(256).optional(),
   location: z.string().max(30).optional(),
+  hide_leaderboard: z.boolean().optional(),
+  anonymize_devices: z.boolean().optional(),
+  hide_profile: z.boolean().optional(),
+  hide_location: z.boolean().optional(),
+});
+
+export const userDeletionValidation = z.object({
+  password: z.string().optional(),
+});
+
+export const sessionRevokeValidation = z.object({
+  keep_current: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value == "true"),
 });
 
 export const trackingValidation = z.object({
@@ -52,6 +90,67 @@ export const trackingValidation = z.object({
   }),
 });
 
+export const deviceLogsValidation = z.object({
+  mac,
+  deviceTime: z.number().optional(),
+  logs: z
+    .array(
+      z.object({
+        log_id: z.number().int(),
+        type: z.number().int(),
+        timestamp: z.number(),
+        data: z.record(z.any()).optional(),
+      })
+    )
+    .min(1)
+    .max(500),
+});
+
+const timezone = z.custom<string>((val) => {
+  try {
+    Intl.DateTimeFormat(undefined, { timeZone: val as string });
+    return true;
+  } catch (error) {
+    return false;
+  }
+});
+
+export const deviceHistoryValidation = z.object({
+  bucket: z.enum(["hour", "day", "week", "month"]).default("day"),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  timezone: timezone.default("UTC"),
+});
+
+const firmwareRevision = z
+  .string()
+  .regex(/^[A-Za-z]{1,3}$/)
+  .transform((value) => value.toUpperCase());
+
+export const leaderboardValidation = z
+  .object({
+    // Kept loose, older clients send ?avg=1 or ?avg=true.
+    avg: z
+      .string()
+      .optional()
+      .transform((value) => value != undefined && value != "false"),
+    period: z.enum(["all", "week", "month"]).default("all"),
+    model: z.enum(ProductModels).optional(),
+    firmware_min: firmwareRevision.optional(),
+    firmware_max: firmwareRevision.optional(),
+    cursor: z.coerce.number().int().min(1).optional(),
+    // Clients asking for too much just get the most we hand out in one page.
+    limit: z.coerce
+      .number()
+      .int()
+      .default(25)
+      .transform((limit) => Math.min(Math.max(limit, 1), 100)),
+  })
+  .refine((query) => !query.avg || query.period == "all", {
+    message: "The average board is only available for all time",
+    path: ["avg"],
+  });
+
 const profileValidation = z.object({
   name: z.string(),
   temp: z.number(),
@@ -92,6 +191,43 @@ export const diagValidation = z.object({
   }),
 });
 
+export const firmwareWatchValidation = z.object({
+  serial: z
+    .string()
+    .trim()
+    .min(4)
+    .max(32)
+    .transform((serial) => serial.toUpperCase()),
+  nickname: z.string().max(32).optional(),
+});
+
+export const firmwareWatchUpdateValidation = z.object({
+  nickname: z.string().max(32).nullable(),
+});
+
+export const strainSearchValidation = z.object({
+  q: z.string().trim().max(64).optional(),
+  species: z.string().max(32).optional(),
+  platform: z.string().max(32).optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+export const strainValidation = z.object({
+  name: z.string().trim().min(1).max(64),
+  slug: z
+    .string()
+    .max(64)
+    .regex(/^[a-z0-9.-]+$/)
+    .optional(),
+  platform: z.string().max(32).optional(),
+  species: z.string().max(32).optional(),
+  thc: z.string().max(16).optional(),
+  cbd: z.string().max(16).optional(),
+});
+
+export const strainUpdateValidation = strainValidation.partial();
+
 export const debuggingSubmissionValidation = z.object({
   mac
 });
@@ -109,6 +245,12 @@ export function verifyRequest<T>(body: Buffer, signature: string): T {
   return JSON.parse(dec) as T;
 }
 
+export function requestIp(req: FastifyRequest) {
+  return (req.headers["cf-connecting-ip"] ||
+    req.socket.remoteAddress ||
+    "0.0.0.0") as string;
+}
+
 export function sanitize<T>(object: T, keys: string[]): T {
   for (const key of keys) delete object[key as keyof T];
   return object;
@@ -7,6 +7,7 @@ export enum LogTypes {
   SiteFeedback,
   DeviceDabsUpdate,
   DeviceConnection,
+  FirmwareUpdate,
 }
 
 export interface NewUser {
@@ -56,6 +57,14 @@ export interface DeviceDabsUpdate {
   dabs: number;
 }
 
+export interface FirmwareUpdate {
+  serial: string;
+  user: string | null;
+  nickname: string | null;
+  old_version: string | null;
+  version: string;
+}
+
 export async function trackLog(
   type: LogTypes,
   channel: string,
@@ -66,6 +75,7 @@ export async function trackLog(
     | SiteFeedback
     | DeviceConnection
     | DeviceDabsUpdate
+    | FirmwareUpdate
 ) {
   try {
     await fetch(`${env.DASH_API_HOST}/log?type=${type}&channel=${channel}`, {